@@ -5,12 +5,39 @@ import { geminiService } from './services/geminiService';
 import { ICONS } from './constants';
 import RadioPlayer from './components/RadioPlayer';
 import WorldMap from './components/WorldMap';
+import SettingsPanel from './components/SettingsPanel';
+import ErrorState from './components/ErrorState';
+import SearchBox from './components/SearchBox';
+import CollectionsSection, { ALL_FAVORITES } from './components/CollectionsSection';
+import CollectionPicker from './components/CollectionPicker';
+import StorageNotice from './components/StorageNotice';
+import HistoryPanel from './components/HistoryPanel';
+import PlaylistTransferPanel from './components/PlaylistTransferPanel';
+import StationHealthBadges from './components/StationHealthBadges';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import CommandPalette, { PaletteItem } from './components/CommandPalette';
+import FailoverToast, { FailoverNotice } from './components/FailoverToast';
+import SimilarStationsPanel from './components/SimilarStationsPanel';
+import DjChatPanel from './components/DjChatPanel';
+import { isAbortError } from './services/apiErrors';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { useCollections, moveItem } from './hooks/useCollections';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useListeningLog } from './hooks/useListeningLog';
+import { useSleepTimer } from './hooks/useSleepTimer';
+import { useAlarm } from './hooks/useAlarm';
+import { useStationHealth, isUnreachable } from './hooks/useStationHealth';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useDjChat } from './hooks/useDjChat';
+import { mergeImport, isCustomStation } from './services/playlistImport';
+import { MAX_RECENT } from './services/storage';
+import { parseRoute, buildRoutePath, isNewHistoryEntry, buildStationShareUrl, AppRoute, ViewType } from './utils/routing';
+import { findSimilarStations, describeMatch } from './utils/stationSimilarity';
+import { parseSearchQuery, toStationSearch, removeSearchToken, describeFilter, formatCountryToken, formatTagToken, isEmptySearch } from './utils/searchQuery';
 
-const STORAGE_KEY = 'voxworld_favorites';
-const VOTES_KEY = 'voxworld_user_votes';
-const RECENT_KEY = 'voxworld_recently_played';
 const PAGE_SIZE = 30;
-const MAX_RECENT = 10;
+const SEARCH_DEBOUNCE_MS = 350;
+const MIN_LIVE_QUERY = 2;
 
 const AI_STARTERS_CATEGORIES = [
   {
@@ -63,112 +90,260 @@ const FEATURED_COUNTRIES = [
   { name: 'India', code: 'IN' }, { name: 'Australia', code: 'AU' }, { name: 'South Africa', code: 'ZA' }
 ];
 
+// After a stream dies for good, playback moves on by itself, but gives up after a few dead stations in a row
+const MAX_FAILOVER_HOPS = 5;
+const FAILOVER_WINDOW_MS = 2 * 60_000;
+
+// One shared empty list, so the map's effects don't rerun on every render while it has no stations
+const NO_MAP_STATIONS: Station[] = [];
+
+/** What Next / Previous step through: a favorites collection (kept live) or a snapshot of a result list. */
+type PlayQueue =
+  | { kind: 'collection'; collectionId: string }
+  | { kind: 'list'; name: string; stations: Station[] };
+
+const recommendationFromRoute = (genre: string | null): GeminiRecommendation | null =>
+  genre ? { genre, description: '', suggestedCountries: [] } : null;
+
 const App: React.FC = () => {
+  const [initialRoute] = useState(() => parseRoute(window.location));
   const [stations, setStations] = useState<Station[]>([]);
-  const [favorites, setFavorites] = useState<Station[]>([]);
-  const [recentlyPlayed, setRecentlyPlayed] = useState<Station[]>([]);
-  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [favorites, setFavorites] = usePersistentState('favorites');
+  const [recentlyPlayed, setRecentlyPlayed] = usePersistentState('recent');
+  const [votes, setVotes] = usePersistentState('votes');
   const [countries, setCountries] = useState<Country[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
-  const [offset, setOffset] = useState(0);
   const [hasMore, setHasMore] = useState(true);
+  const [stationsError, setStationsError] = useState<{ error: unknown; isAppend: boolean } | null>(null);
+  const [countriesError, setCountriesError] = useState<unknown>(null);
   
   const [currentStation, setCurrentStation] = useState<Station | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialRoute.query);
   const [aiQuery, setAiQuery] = useState('');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isAiThinking, setIsAiThinking] = useState(false);
-  const [recommendation, setRecommendation] = useState<GeminiRecommendation | null>(null);
-  const [selectedCountry, setSelectedCountry] = useState<string | null>(null);
-  const [currentFilterType, setCurrentFilterType] = useState<'top' | 'search' | 'country' | 'ai'>('top');
-  const [sortBy, setSortBy] = useState<StationSort>('votes');
+  const [recommendation, setRecommendation] = useState<GeminiRecommendation | null>(() => recommendationFromRoute(initialRoute.genre));
+  const [selectedCountry, setSelectedCountry] = useState<string | null>(initialRoute.country);
+  const [currentFilterType, setCurrentFilterType] = useState<ViewType>(initialRoute.view);
+  const [sortBy, setSortBy] = useState<StationSort>(initialRoute.sort);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isDjOpen, setIsDjOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // Station named in the URL that is still being looked up, and the shared station offered for playback
+  const [linkedStationId, setLinkedStationId] = useState<string | null>(initialRoute.stationId);
+  const [sharedStation, setSharedStation] = useState<Station | null>(null);
+  const [pickerStationId, setPickerStationId] = useState<string | null>(null);
+  const [queue, setQueue] = useState<PlayQueue | null>(null);
+  const [similarTo, setSimilarTo] = useState<Station | null>(null);
+  const [failoverNotice, setFailoverNotice] = useState<FailoverNotice | null>(null);
+  // The dead stations of the current failover run, and what to return to on undo
+  const failoverRef = useRef<{ tried: Set<string>; startedAt: number; origin: Station; originQueue: PlayQueue | null } | null>(null);
+  const { collections, createCollection, renameCollection, deleteCollection, toggleStation, reorderCollection, removeStationEverywhere, replaceStationIds } = useCollections();
 
   const observerTarget = useRef<HTMLDivElement>(null);
+  // Bumped on every fresh (non-append) fetch so late background refreshes of an old query are ignored
+  const queryTokenRef = useRef(0);
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  // A ref rather than state: appending a page must not recreate fetchStations and retrigger page one
+  const offsetRef = useRef(0);
+
+  // Only time the player reports as audible counts, not connecting or a failed stream
+  const [isAudible, setIsAudible] = useState(false);
+  const { history, clearRange } = useListeningLog(currentStation, isAudible);
+  const stationHealth = useStationHealth();
+  const [preferences] = usePersistentState('preferences');
+  const favoriteIds = useMemo(() => new Set(favorites.map(s => s.stationuuid)), [favorites]);
+  const votedIds = useMemo(() => new Set(votes), [votes]);
+  const liveQuery = useDebouncedValue(searchQuery.trim(), SEARCH_DEBOUNCE_MS);
+  const parsedQuery = useMemo(() => parseSearchQuery(liveQuery), [liveQuery]);
+
+  const currentRoute = useMemo<AppRoute>(() => ({
+    view: currentFilterType,
+    query: searchQuery.trim(),
+    country: selectedCountry,
+    genre: recommendation?.genre ?? null,
+    sort: sortBy,
+    stationId: currentStation?.stationuuid ?? linkedStationId,
+  }), [currentFilterType, searchQuery, selectedCountry, recommendation, sortBy, currentStation, linkedStationId]);
+  const routeRef = useRef<AppRoute>(initialRoute);
 
+  // Mirror app state into the address bar
   useEffect(() => {
-    const savedFavs = localStorage.getItem(STORAGE_KEY);
-    if (savedFavs) { try { setFavorites(JSON.parse(savedFavs)); } catch (e) { console.error(e); } }
-    const savedVotes = localStorage.getItem(VOTES_KEY);
-    if (savedVotes) { try { setVotedIds(new Set(JSON.parse(savedVotes))); } catch (e) { console.error(e); } }
-    const savedRecent = localStorage.getItem(RECENT_KEY);
-    if (savedRecent) { try { setRecentlyPlayed(JSON.parse(savedRecent)); } catch (e) { console.error(e); } }
-    
-    const fetchCountries = async () => {
-      try {
-        const data = await radioService.getCountries();
-        setCountries(data);
-      } catch (err) { console.error("Failed to fetch countries", err); }
+    const path = buildRoutePath(currentRoute);
+    if (path !== window.location.pathname + window.location.search) {
+      if (isNewHistoryEntry(routeRef.current, currentRoute)) window.history.pushState(null, '', path);
+      else window.history.replaceState(null, '', path);
+    }
+    routeRef.current = currentRoute;
+  }, [currentRoute]);
+
+  // Back / forward restore the view and the station of that entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location);
+      routeRef.current = route;
+      setCurrentFilterType(route.view);
+      setSearchQuery(route.query);
+      setSelectedCountry(route.country);
+      setSortBy(route.sort);
+      setRecommendation(prev => prev?.genre === route.genre ? prev : recommendationFromRoute(route.genre));
+      if (route.stationId) {
+        radioService.getStationByUuid(route.stationId)
+          .then(station => { if (station) setCurrentStation(prev => prev?.stationuuid === station.stationuuid ? prev : station); })
+          .catch(err => console.error("Failed to restore station", err));
+      }
     };
-    fetchCountries();
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // A /station/<uuid> link loads the station paused and offers to play it
+  useEffect(() => {
+    if (!initialRoute.stationId) return;
+    radioService.getStationByUuid(initialRoute.stationId)
+      .then(station => {
+        if (!station) return;
+        setCurrentStation(prev => prev ?? station);
+        setSharedStation(station);
+      })
+      .catch(err => console.error("Failed to load shared station", err))
+      .finally(() => setLinkedStationId(null));
+  }, [initialRoute]);
+
+  // Saved stations are snapshots; refresh stream URLs, logos and counters once per session
+  useEffect(() => {
+    const ids = Array.from(new Set([...favorites, ...recentlyPlayed].filter(s => !isCustomStation(s)).map(s => s.stationuuid)));
+    if (ids.length === 0) return;
+    radioService.getStationsByUuids(ids)
+      .then(fresh => {
+        if (fresh.length === 0) return;
+        const byId = new Map(fresh.map(s => [s.stationuuid, s]));
+        const refresh = (list: Station[]) => list.map(s => byId.get(s.stationuuid) ?? s);
+        setFavorites(refresh);
+        setRecentlyPlayed(refresh);
+      })
+      .catch(err => console.error("Failed to refresh saved stations", err));
   }, []);
 
-  useEffect(() => { localStorage.setItem(STORAGE_KEY, JSON.stringify(favorites)); }, [favorites]);
-  useEffect(() => { localStorage.setItem(VOTES_KEY, JSON.stringify(Array.from(votedIds))); }, [votedIds]);
-  useEffect(() => { localStorage.setItem(RECENT_KEY, JSON.stringify(recentlyPlayed)); }, [recentlyPlayed]);
+  const fetchCountries = useCallback(async () => {
+    setCountriesError(null);
+    try {
+      const data = await radioService.getCountries({ onRevalidate: setCountries });
+      setCountries(data);
+    } catch (err) {
+      console.error("Failed to fetch countries", err);
+      setCountriesError(err);
+    }
+  }, []);
+
+  useEffect(() => { fetchCountries(); }, [fetchCountries]);
 
   const updateStationStats = useCallback((stationuuid: string, updates: Partial<Station>) => {
     const update = (list: Station[]) => list.map(s => s.stationuuid === stationuuid ? { ...s, ...updates } : s);
     setStations(prev => update(prev));
     setFavorites(prev => update(prev));
     setRecentlyPlayed(prev => update(prev));
-  }, []);
+  }, [setFavorites, setRecentlyPlayed]);
 
   const fetchStations = useCallback(async (isAppend = false) => {
-    const targetOffset = isAppend ? offset + PAGE_SIZE : 0;
+    const targetOffset = isAppend ? offsetRef.current + PAGE_SIZE : 0;
     if (isAppend) setLoadingMore(true); else setLoading(true);
+    setStationsError(null);
+    // A new query cancels whatever the previous one still has in flight; pages of the same query share its controller
+    if (!isAppend || !fetchAbortRef.current) {
+      fetchAbortRef.current?.abort();
+      fetchAbortRef.current = new AbortController();
+    }
+    const { signal } = fetchAbortRef.current;
+    const token = isAppend ? queryTokenRef.current : ++queryTokenRef.current;
+    const cacheOptions = {
+      signal,
+      onRevalidate: (fresh: Station[]) => {
+        if (token !== queryTokenRef.current) return;
+        setStations(prev => [...prev.slice(0, targetOffset), ...fresh, ...prev.slice(targetOffset + PAGE_SIZE)]);
+      }
+    };
 
     try {
       let data: Station[] = [];
+      // Client-side filters can shrink a page; paging must follow what the server returned
+      let rawCount: number | null = null;
       const reverse = sortBy !== 'name' && sortBy !== 'country' && sortBy !== 'language';
       
       switch (currentFilterType) {
         case 'search': {
-          const isTag = searchQuery.startsWith('#');
-          const isCountrySearch = searchQuery.startsWith('@');
-          const cleanVal = (isTag || isCountrySearch) ? searchQuery.slice(1) : searchQuery;
-          data = await radioService.searchStations({ 
-            name: (!isTag && !isCountrySearch) ? cleanVal : undefined,
-            tag: isTag ? cleanVal : undefined,
-            country: isCountrySearch ? cleanVal : undefined,
-            limit: PAGE_SIZE, offset: targetOffset, order: sortBy, reverse: reverse
-          });
+          // Only the valid parts of the query run; parse errors are shown next to the search box
+          if (isEmptySearch(parsedQuery)) break;
+          const { params, matches } = toStationSearch(parsedQuery);
+          const page = await radioService.searchStations({
+            ...params, limit: PAGE_SIZE, offset: targetOffset, order: sortBy, reverse: reverse
+          }, cacheOptions);
+          rawCount = page.length;
+          data = page.filter(matches);
           break;
         }
         case 'country':
-          data = selectedCountry ? await radioService.getStationsByCountry(selectedCountry, PAGE_SIZE, targetOffset, sortBy) : [];
+          data = selectedCountry ? await radioService.getStationsByCountry(selectedCountry, PAGE_SIZE, targetOffset, sortBy, cacheOptions) : [];
           break;
         case 'ai':
           data = recommendation ? await radioService.searchStations({ 
             tag: recommendation.genre, limit: PAGE_SIZE, offset: targetOffset, order: sortBy, reverse: reverse
-          }) : [];
+          }, cacheOptions) : [];
           break;
         default:
           if (sortBy === 'votes') {
-            data = await radioService.getTopStations(PAGE_SIZE, targetOffset);
+            data = await radioService.getTopStations(PAGE_SIZE, targetOffset, cacheOptions);
           } else {
-            data = await radioService.searchStations({ limit: PAGE_SIZE, offset: targetOffset, order: sortBy, reverse: reverse });
+            data = await radioService.searchStations({ limit: PAGE_SIZE, offset: targetOffset, order: sortBy, reverse: reverse }, cacheOptions);
           }
       }
 
+      if (signal.aborted || token !== queryTokenRef.current) return;
       if (isAppend) {
         setStations(prev => [...prev, ...data]);
-        setOffset(targetOffset);
       } else {
         setStations(data);
-        setOffset(0);
       }
-      setHasMore(data.length === PAGE_SIZE);
-    } catch (err) { console.error("Failed to fetch stations", err); } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      offsetRef.current = targetOffset;
+      setHasMore((rawCount ?? data.length) === PAGE_SIZE);
+    } catch (err) {
+      if (isAbortError(err) || token !== queryTokenRef.current) return;
+      console.error("Failed to fetch stations", err);
+      setStationsError({ error: err, isAppend });
+      // Stop the infinite-scroll observer from hammering a failing endpoint
+      setHasMore(false);
+      if (!isAppend) setStations([]);
+    } finally {
+      // A superseded fetch leaves the spinners to the one that replaced it
+      if (token === queryTokenRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-  }, [currentFilterType, searchQuery, selectedCountry, recommendation, offset, sortBy]);
+  }, [currentFilterType, parsedQuery, selectedCountry, recommendation, sortBy]);
 
   useEffect(() => { fetchStations(); }, [currentFilterType, selectedCountry, sortBy, fetchStations]);
 
+  // Search as you type: a settled query switches to search mode, clearing the box leaves it
+  useEffect(() => {
+    if (liveQuery.length >= MIN_LIVE_QUERY) {
+      if (currentFilterType !== 'search') {
+        setSelectedCountry(null);
+        setRecommendation(null);
+        setCurrentFilterType('search');
+      }
+    } else if (!liveQuery && currentFilterType === 'search') {
+      setCurrentFilterType('top');
+    }
+  }, [liveQuery]);
+
   useEffect(() => {
     const observer = new IntersectionObserver(
       entries => { if (entries[0].isIntersecting && hasMore && !loading && !loadingMore) { fetchStations(true); } },
@@ -214,13 +389,32 @@ const App: React.FC = () => {
     } catch (err) { console.error("AI Discovery failed", err); } finally { setIsAiThinking(false); }
   };
 
+  const showRecommendation = (rec: GeminiRecommendation) => {
+    setSelectedCountry(null);
+    setRecommendation(rec);
+    setCurrentFilterType('ai');
+  };
+  const djChat = useDjChat(showRecommendation);
+
+  const filterBySuggestedCountry = (country: string) => {
+    setSearchQuery(formatCountryToken(country));
+    setSelectedCountry(null);
+    setCurrentFilterType('search');
+  };
+
+  const surpriseMe = () => {
+    const allPrompts = AI_STARTERS_CATEGORIES.flatMap(c => c.prompts);
+    handleAiDiscover(allPrompts[Math.floor(Math.random() * allPrompts.length)].text);
+  };
+
   const handleCountrySelect = (code: string) => {
     setSelectedCountry(code);
     setCurrentFilterType('country');
   };
 
-  const toggleFavorite = (e: React.MouseEvent, station: Station) => {
-    e.stopPropagation();
+  const toggleFavorite = (station: Station) => {
+    // Collections are subsets of the favorites, so unstarring takes the station out of all of them
+    if (favoriteIds.has(station.stationuuid)) removeStationEverywhere(station.stationuuid);
     setFavorites(prev => {
       const isFav = prev.some(s => s.stationuuid === station.stationuuid);
       if (isFav) return prev.filter(s => s.stationuuid !== station.stationuuid);
@@ -228,21 +422,43 @@ const App: React.FC = () => {
     });
   };
 
+  const toggleInCollection = (collectionId: string, station: Station) => {
+    setFavorites(prev => prev.some(s => s.stationuuid === station.stationuuid) ? prev : [...prev, station]);
+    toggleStation(collectionId, station.stationuuid);
+  };
+
+  const createCollectionWith = (name: string, station: Station) => {
+    setFavorites(prev => prev.some(s => s.stationuuid === station.stationuuid) ? prev : [...prev, station]);
+    createCollection(name, [station.stationuuid]);
+  };
+
+  const handleImport = (result: ReturnType<typeof mergeImport>, collectionName: string | null) => {
+    setFavorites(result.favorites);
+    replaceStationIds(result.replacedIds);
+    if (collectionName && result.importedIds.length > 0) createCollection(collectionName, result.importedIds);
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    deleteCollection(id);
+    if (queue?.kind === 'collection' && queue.collectionId === id) setQueue(null);
+  };
+
   const handleVote = async (e: React.MouseEvent, station: Station) => {
     e.stopPropagation();
-    if (votedIds.has(station.stationuuid)) return;
+    // Imported streams aren't in the directory, so there is nothing to vote for
+    if (votedIds.has(station.stationuuid) || isCustomStation(station)) return;
     updateStationStats(station.stationuuid, { votes: station.votes + 1 });
-    setVotedIds(prev => new Set(prev).add(station.stationuuid));
+    setVotes(prev => prev.includes(station.stationuuid) ? prev : [...prev, station.stationuuid]);
     const result = await radioService.voteForStation(station.stationuuid);
     if (!result.ok) {
       updateStationStats(station.stationuuid, { votes: station.votes });
-      setVotedIds(prev => { const next = new Set(prev); next.delete(station.stationuuid); return next; });
+      setVotes(prev => prev.filter(id => id !== station.stationuuid));
     }
   };
 
   const handleShare = async (e: React.MouseEvent, station: Station) => {
     e.stopPropagation();
-    const url = station.url_resolved || station.url;
+    const url = buildStationShareUrl(station.stationuuid, currentRoute);
     try {
       await navigator.clipboard.writeText(url);
       setCopiedId(station.stationuuid);
@@ -250,7 +466,21 @@ const App: React.FC = () => {
     } catch (err) { console.error('Failed to copy text: ', err); }
   };
 
-  const playStation = (station: Station) => {
+  const playingCollectionId = queue?.kind === 'collection' ? queue.collectionId : null;
+  const playlist = useMemo(() => {
+    if (!queue) return [];
+    if (queue.kind === 'list') return queue.stations;
+    if (queue.collectionId === ALL_FAVORITES) return favorites;
+    const collection = collections.find(c => c.id === queue.collectionId);
+    if (!collection) return [];
+    const byId = new Map(favorites.map(s => [s.stationuuid, s]));
+    return collection.stationIds.map(id => byId.get(id)).filter((s): s is Station => Boolean(s));
+  }, [queue, favorites, collections]);
+  const playlistName = !queue ? '' : queue.kind === 'list' ? queue.name : collections.find(c => c.id === queue.collectionId)?.name ?? 'Favorites';
+  const playlistIndex = currentStation ? playlist.findIndex(s => s.stationuuid === currentStation.stationuuid) : -1;
+
+  const startPlayback = (station: Station) => {
+    setSharedStation(null);
     updateStationStats(station.stationuuid, { clickcount: (station.clickcount || 0) + 1 });
     if (currentStation?.stationuuid === station.stationuuid) {
       setIsPlaying(true);
@@ -264,19 +494,145 @@ const App: React.FC = () => {
     });
   };
 
+  /** Plays a station the user picked, which ends any failover run and, when it's outside the queue, the queue too. */
+  const playStation = (station: Station) => {
+    failoverRef.current = null;
+    setFailoverNotice(null);
+    if (!playlist.some(s => s.stationuuid === station.stationuuid)) setQueue(null);
+    startPlayback(station);
+  };
+
+  /** Plays a station from a result list and queues up the rest of that list. */
+  const playFromList = (station: Station, name: string, list: Station[]) => {
+    failoverRef.current = null;
+    setFailoverNotice(null);
+    setQueue({ kind: 'list', name, stations: list });
+    startPlayback(station);
+  };
+
+  const playCollection = (collectionId: string) => {
+    const first = collectionId === ALL_FAVORITES
+      ? favorites[0]
+      : favorites.find(s => s.stationuuid === collections.find(c => c.id === collectionId)?.stationIds.find(id => favoriteIds.has(id)));
+    if (!first) return;
+    failoverRef.current = null;
+    setFailoverNotice(null);
+    setQueue({ kind: 'collection', collectionId });
+    setSharedStation(null);
+    setCurrentStation(first);
+    setIsPlaying(true);
+  };
+
+  const stepPlaylist = (delta: number) => {
+    if (playlist.length === 0) return;
+    // From a station outside the playlist, Next starts at the top and Previous at the bottom
+    const from = playlistIndex === -1 ? (delta > 0 ? -1 : 0) : playlistIndex;
+    playStation(playlist[(from + delta + playlist.length) % playlist.length]);
+  };
+
+  // History keeps snapshots only; saved stations play as-is, others are looked up again
+  const playFromHistory = async (stationuuid: string) => {
+    const known = [...favorites, ...recentlyPlayed, ...stations].find(s => s.stationuuid === stationuuid);
+    try {
+      const station = known ?? await radioService.getStationByUuid(stationuuid);
+      if (station) playStation(station);
+    } catch (err) { console.error("Failed to load station from history", err); }
+  };
+
   const togglePlay = useCallback(() => setIsPlaying(prev => !prev), []);
-  const favoriteIds = useMemo(() => new Set(favorites.map(s => s.stationuuid)), [favorites]);
 
-  const renderStationCard = (station: Station) => {
+  const sleepTimer = useSleepTimer(isPlaying, () => setIsPlaying(false));
+  const alarm = useAlarm(favorites, playStation);
+  const stopAlarm = alarm.stop;
+  // Pausing silences the alarm for good, including its fallback stations
+  useEffect(() => { if (!isPlaying) stopAlarm(); }, [isPlaying, stopAlarm]);
+
+  // Unreachable stations keep their relative order; "sort" only moves them behind the rest
+  const listedStations = useMemo(() => {
+    const mode = preferences.unreachableStations;
+    if (mode === 'show') return stations;
+    const isDown = (station: Station) => isUnreachable(station, stationHealth.health[station.stationuuid]);
+    if (mode === 'hide') return stations.filter(station => !isDown(station));
+    return [...stations.filter(station => !isDown(station)), ...stations.filter(isDown)];
+  }, [stations, stationHealth.health, preferences.unreachableStations]);
+
+  // Next/previous follow the running playlist, otherwise the stations on screen
+  const stepStation = (delta: 1 | -1) => {
+    if (playlist.length > 0) { stepPlaylist(delta); return; }
+    if (listedStations.length === 0) return;
+    const index = currentStation ? listedStations.findIndex(s => s.stationuuid === currentStation.stationuuid) : -1;
+    const from = index === -1 ? (delta > 0 ? -1 : 0) : index;
+    playStation(listedStations[(from + delta + listedStations.length) % listedStations.length]);
+  };
+
+  // The stream gave up for good: carry on with the next station in the queue, or the closest match to the dead one
+  const handlePlaybackError = () => {
+    if (alarm.isRinging) { alarm.handlePlaybackError(); return; }
+    if (!currentStation) return;
+    const failed = currentStation;
+    const now = Date.now();
+    const previous = failoverRef.current;
+    const run = previous && now - previous.startedAt < FAILOVER_WINDOW_MS
+      ? previous
+      : { tried: new Set<string>(), startedAt: now, origin: failed, originQueue: queue };
+    run.tried.add(failed.stationuuid);
+    failoverRef.current = run;
+    // Too many dead stations in a row: stop and leave the player's error showing
+    if (run.tried.size > MAX_FAILOVER_HOPS) { setFailoverNotice(null); return; }
+
+    const isCandidate = (station: Station) => !run.tried.has(station.stationuuid) && !isUnreachable(station, stationHealth.health[station.stationuuid]);
+    // An alternative picked earlier in the run isn't in the queue, so continue from where the run started
+    const anchor = [failed, run.origin].map(s => playlist.findIndex(q => q.stationuuid === s.stationuuid)).find(index => index !== -1) ?? -1;
+    let next = anchor === -1 ? undefined : [...playlist.slice(anchor + 1), ...playlist.slice(0, anchor)].find(isCandidate);
+    let reason = next ? `Next in ${playlistName}` : '';
+    if (!next) {
+      const [match] = findSimilarStations(failed, [...playlist, ...listedStations, ...favorites, ...recentlyPlayed].filter(isCandidate), run.tried, 1);
+      if (match) { next = match.station; reason = `Similar station · ${describeMatch(match)}`; }
+    }
+    if (!next) return;
+    startPlayback(next);
+    setFailoverNotice({ id: now, failedName: failed.name, stationName: next.name, reason });
+  };
+
+  // Back to the station that failed first, paused, with the queue it was playing from
+  const undoFailover = () => {
+    const run = failoverRef.current;
+    failoverRef.current = null;
+    setFailoverNotice(null);
+    if (!run) return;
+    setQueue(run.originQueue);
+    setCurrentStation(run.origin);
+    setIsPlaying(false);
+  };
+
+  const dismissFailover = useCallback(() => setFailoverNotice(null), []);
+
+  useKeyboardShortcuts({
+    togglePlay: () => { if (currentStation) togglePlay(); },
+    next: () => stepStation(1),
+    previous: () => stepStation(-1),
+    favorite: () => { if (currentStation) toggleFavorite(currentStation); },
+    search: () => searchInputRef.current?.focus(),
+    palette: () => setIsPaletteOpen(prev => !prev),
+    help: () => setIsShortcutsOpen(prev => !prev),
+  });
+
+  const listTitle = selectedCountry
+    ? `Stations in ${countries.find(c => c.iso_3166_1 === selectedCountry)?.name || selectedCountry}`
+    : searchQuery ? `Results for "${searchQuery}"` : recommendation ? `AI Recommended: ${recommendation.genre}` : 'Global Top Frequencies';
+
+  const renderStationCard = (station: Station, onPlay: (station: Station) => void = playStation) => {
     const isFav = favoriteIds.has(station.stationuuid);
     const hasVoted = votedIds.has(station.stationuuid);
     const isCurrent = currentStation?.stationuuid === station.stationuuid;
     const isCopied = copiedId === station.stationuuid;
+    const isPickerOpen = pickerStationId === station.stationuuid;
 
     return (
       <div 
         key={station.stationuuid}
-        onClick={() => playStation(station)}
+        ref={stationHealth.observe(station)}
+        onClick={() => onPlay(station)}
         className={`group relative p-4 rounded-2xl transition-all cursor-pointer border animate-in fade-in slide-in-from-bottom-2 ${
           isCurrent 
             ? 'bg-sky-500/10 border-sky-500/30 shadow-[0_0_20px_rgba(14,165,233,0.1)]' 
@@ -312,14 +668,23 @@ const App: React.FC = () => {
               <span className="text-[10px] px-2 py-0.5 bg-slate-800 rounded-full text-slate-400 font-bold border border-white/5 flex items-center gap-1">
                 {(station.clickcount || 0).toLocaleString()} <span className="text-[8px] opacity-60">CLICKS</span>
               </span>
+              <StationHealthBadges station={station} health={stationHealth.health[station.stationuuid]} />
             </div>
           </div>
           <div className="flex flex-col items-center gap-1">
-            <button onClick={(e) => toggleFavorite(e, station)} className={`p-2 rounded-full transition-colors ${isFav ? 'text-yellow-400' : 'text-slate-600 hover:text-slate-400'}`} title="Add to Favorites">
+            <button onClick={(e) => { e.stopPropagation(); toggleFavorite(station); }} className={`p-2 rounded-full transition-colors ${isFav ? 'text-yellow-400' : 'text-slate-600 hover:text-slate-400'}`} title="Add to Favorites">
               {isFav ? <ICONS.StarFilled /> : <ICONS.Star />}
             </button>
-            <button onClick={(e) => handleVote(e, station)} disabled={hasVoted} className={`p-2 rounded-full transition-all ${hasVoted ? 'text-emerald-400 scale-110 cursor-default bg-emerald-500/10' : 'text-slate-600 hover:text-emerald-400 hover:bg-white/5'}`} title={hasVoted ? "You've voted for this station" : "Vote Up"}>
-              <ICONS.ThumbsUp />
+            <button onClick={(e) => { e.stopPropagation(); setPickerStationId(isPickerOpen ? null : station.stationuuid); }} className={`p-2 rounded-full transition-all ${isPickerOpen ? 'text-yellow-300 bg-yellow-400/10' : 'text-slate-600 hover:text-yellow-300 hover:bg-white/5'}`} title="Add to Collection">
+              <ICONS.ListPlus />
+            </button>
+            {!isCustomStation(station) && (
+              <button onClick={(e) => handleVote(e, station)} disabled={hasVoted} className={`p-2 rounded-full transition-all ${hasVoted ? 'text-emerald-400 scale-110 cursor-default bg-emerald-500/10' : 'text-slate-600 hover:text-emerald-400 hover:bg-white/5'}`} title={hasVoted ? "You've voted for this station" : "Vote Up"}>
+                <ICONS.ThumbsUp />
+              </button>
+            )}
+            <button onClick={(e) => { e.stopPropagation(); setSimilarTo(station); }} className="p-2 rounded-full text-slate-600 hover:text-sky-400 hover:bg-white/5 transition-all" title="More like this">
+              <ICONS.Compass />
             </button>
             <button onClick={(e) => handleShare(e, station)} className={`p-2 rounded-full transition-all relative ${isCopied ? 'text-sky-400 bg-sky-500/10' : 'text-slate-600 hover:text-sky-400 hover:bg-white/5'}`} title="Share Link">
               {isCopied ? <ICONS.Check /> : <ICONS.Share />}
@@ -327,6 +692,15 @@ const App: React.FC = () => {
             </button>
           </div>
         </div>
+        {isPickerOpen && (
+          <CollectionPicker
+            stationId={station.stationuuid}
+            collections={collections}
+            onToggle={(id) => toggleInCollection(id, station)}
+            onCreate={(name) => createCollectionWith(name, station)}
+            onClose={() => setPickerStationId(null)}
+          />
+        )}
       </div>
     );
   };
@@ -342,6 +716,66 @@ const App: React.FC = () => {
     { label: 'Language', value: 'language' },
   ];
 
+  // Only assembled while the palette is open; it closes over most of the app's state
+  const buildPaletteItems = (): PaletteItem[] => {
+    const lastHeard = new Map<string, number>();
+    history.forEach(session => lastHeard.set(session.stationuuid, Math.max(lastHeard.get(session.stationuuid) ?? 0, session.startedAt)));
+    const heardStations = Array.from(new Map([...recentlyPlayed, ...favorites].map(s => [s.stationuuid, s])).values());
+    const searchFor = (token: string) => {
+      setSearchQuery(token);
+      setSelectedCountry(null);
+      setCurrentFilterType('search');
+    };
+
+    const actions: PaletteItem[] = [
+      { id: 'action:reset', group: 'Action', icon: '🌐', title: 'Reset to global', run: handleGlobalReset },
+      ...(currentStation ? [
+        { id: 'action:toggle-play', group: 'Action' as const, icon: isPlaying ? '⏸' : '▶', title: isPlaying ? 'Pause' : 'Play', detail: currentStation.name, run: togglePlay },
+        { id: 'action:favorite', group: 'Action' as const, icon: '⭐', title: 'Toggle favorite on current station', detail: currentStation.name, run: () => toggleFavorite(currentStation) },
+        { id: 'action:similar', group: 'Action' as const, icon: '🧭', title: 'More like this', detail: currentStation.name, keywords: 'similar stations', run: () => setSimilarTo(currentStation) },
+      ] : []),
+      { id: 'action:next', group: 'Action', icon: '⏭', title: 'Next station', run: () => stepStation(1) },
+      { id: 'action:previous', group: 'Action', icon: '⏮', title: 'Previous station', run: () => stepStation(-1) },
+      { id: 'action:dj', group: 'Action', icon: '🎧', title: 'Chat with the AI DJ', keywords: 'conversation refine recommendation', run: () => setIsDjOpen(true) },
+      { id: 'action:surprise', group: 'Action', icon: '✨', title: 'Surprise me', detail: 'A random AI discovery prompt', run: surpriseMe },
+      ...sortOptions.map(opt => ({ id: `action:sort-${opt.value}`, group: 'Action' as const, icon: '↕', title: `Sort by ${opt.label.toLowerCase()}`, keywords: opt.value, run: () => setSortBy(opt.value) })),
+      { id: 'action:history', group: 'Action', icon: '🕘', title: 'Open listening history', run: () => setIsHistoryOpen(true) },
+      { id: 'action:settings', group: 'Action', icon: '⚙', title: 'Open settings', run: () => setIsSettingsOpen(true) },
+      { id: 'action:transfer', group: 'Action', icon: '⇅', title: 'Import or export favorites', run: () => setIsTransferOpen(true) },
+      { id: 'action:shortcuts', group: 'Action', icon: '⌨', title: 'Keyboard shortcuts', run: () => setIsShortcutsOpen(true) },
+    ];
+
+    return [
+      ...actions,
+      ...heardStations.map((station): PaletteItem => ({
+        id: `station:${station.stationuuid}`,
+        group: favoriteIds.has(station.stationuuid) ? 'Favorite' : 'History',
+        icon: station.countrycode ? getFlagEmoji(station.countrycode) : '📻',
+        title: station.name,
+        detail: [station.country, station.tags.split(',').slice(0, 3).join(', ')].filter(Boolean).join(' · '),
+        keywords: `${station.country} ${station.tags}`,
+        lastUsedAt: lastHeard.get(station.stationuuid),
+        run: () => playStation(station),
+      })),
+      ...DISCOVERY_TAGS.map((tag): PaletteItem => ({
+        id: `tag:${tag.id}`, group: 'Tag', title: tag.label, detail: `Stations tagged #${tag.id}`, keywords: tag.id, run: () => searchFor(formatTagToken(tag.id)),
+      })),
+      ...AI_STARTERS_CATEGORIES.flatMap(category => category.prompts.map((prompt): PaletteItem => ({
+        id: `prompt:${prompt.text}`, group: 'AI prompt', icon: prompt.icon, title: prompt.text, detail: category.title, searchOnly: true, run: () => handleAiDiscover(prompt.text),
+      }))),
+      ...countries.map((country): PaletteItem => ({
+        id: `country:${country.iso_3166_1}`,
+        group: 'Country',
+        icon: getFlagEmoji(country.iso_3166_1),
+        title: country.name,
+        detail: `${country.stationcount.toLocaleString()} stations`,
+        keywords: country.iso_3166_1,
+        searchOnly: true,
+        run: () => handleCountrySelect(country.iso_3166_1),
+      })),
+    ];
+  };
+
   return (
     <div className="flex flex-col h-screen bg-[#020617] text-slate-200 overflow-hidden">
       <header className="h-16 flex items-center justify-between px-6 border-b border-white/5 glass shrink-0 z-30">
@@ -352,15 +786,29 @@ const App: React.FC = () => {
           <h1 className="text-xl font-outfit font-bold tracking-tight bg-gradient-to-r from-white to-sky-400 bg-clip-text text-transparent">VoxWorld</h1>
         </div>
         <div className="hidden md:flex flex-1 max-w-md mx-8">
-          <form onSubmit={handleSearch} className="relative w-full">
-            <input type="text" placeholder="Search station, #genre, or @country..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="w-full h-10 bg-slate-900 border border-white/5 rounded-full pl-10 pr-4 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500/50 transition-all"/>
-            <div className="absolute left-3 top-2.5 text-slate-500"><ICONS.Search /></div>
-          </form>
+          <SearchBox
+            value={searchQuery}
+            onChange={setSearchQuery}
+            onSubmit={() => handleSearch()}
+            countries={countries}
+            errors={parsedQuery.errors}
+            onPickStation={playStation}
+            inputRef={searchInputRef}
+          />
         </div>
         <div className="flex items-center gap-4">
           <button onClick={handleGlobalReset} className={`flex items-center gap-2 px-4 py-2 border rounded-xl text-xs font-bold transition-all ${currentFilterType === 'top' ? 'bg-sky-500 border-sky-400 text-white shadow-lg shadow-sky-500/20' : 'bg-white/5 border-white/10 text-slate-400 hover:bg-white/10'}`}>
             <ICONS.World /><span>GLOBAL</span>
           </button>
+          <button onClick={() => setIsHistoryOpen(true)} className="p-2 rounded-xl border border-white/10 bg-white/5 text-slate-400 hover:text-sky-400 hover:bg-white/10 transition-all" title="Listening history & stats">
+            <ICONS.History />
+          </button>
+          <button onClick={() => setIsShortcutsOpen(true)} className="hidden md:block p-2 rounded-xl border border-white/10 bg-white/5 text-slate-400 hover:text-sky-400 hover:bg-white/10 transition-all" title="Keyboard shortcuts (?)">
+            <ICONS.Keyboard />
+          </button>
+          <button onClick={() => setIsSettingsOpen(true)} className="p-2 rounded-xl border border-white/10 bg-white/5 text-slate-400 hover:text-sky-400 hover:bg-white/10 transition-all" title="Settings">
+            <ICONS.Settings />
+          </button>
         </div>
       </header>
 
@@ -405,6 +853,17 @@ const App: React.FC = () => {
                 </button>
               </div>
 
+              <button
+                onClick={() => setIsDjOpen(true)}
+                className="w-full flex items-center justify-between gap-3 p-3 rounded-2xl bg-gradient-to-br from-sky-500/15 to-indigo-500/10 border border-sky-500/20 hover:border-sky-500/40 transition-all text-left group"
+              >
+                <div className="min-w-0">
+                  <p className="text-xs font-bold text-sky-300">Chat with the AI DJ</p>
+                  <p className="text-[10px] text-slate-500 truncate">{djChat.conversation ? `Resume "${djChat.conversation.title}"` : 'Refine picks step by step'}</p>
+                </div>
+                <div className="text-sky-400 group-hover:scale-125 transition-transform shrink-0"><ICONS.Sparkles /></div>
+              </button>
+
               {/* Enhanced AI Starters UI */}
               <div className="space-y-4">
                 {AI_STARTERS_CATEGORIES.map((category) => (
@@ -426,11 +885,7 @@ const App: React.FC = () => {
                 ))}
                 
                 <button 
-                  onClick={() => {
-                    const allPrompts = AI_STARTERS_CATEGORIES.flatMap(c => c.prompts);
-                    const randomPrompt = allPrompts[Math.floor(Math.random() * allPrompts.length)].text;
-                    handleAiDiscover(randomPrompt);
-                  }}
+                  onClick={surpriseMe}
                   className="w-full py-2.5 rounded-xl border border-dashed border-slate-700 hover:border-sky-500/50 hover:bg-sky-500/5 text-slate-500 hover:text-sky-400 transition-all text-[11px] font-bold uppercase tracking-widest flex items-center justify-center gap-2"
                 >
                   <ICONS.Sparkles /> <span>Surprise Me</span>
@@ -445,18 +900,13 @@ const App: React.FC = () => {
                 <h3 className="text-sky-300 font-bold text-xs uppercase tracking-[0.2em]">{recommendation.genre}</h3>
                 <div className="text-sky-400 group-hover:scale-125 transition-transform"><ICONS.Sparkles /></div>
               </div>
-              <p className="text-[11px] text-slate-300 mb-4 leading-relaxed font-medium">{recommendation.description}</p>
+              {recommendation.description && <p className="text-[11px] text-slate-300 mb-4 leading-relaxed font-medium">{recommendation.description}</p>}
               <div className="flex flex-wrap gap-2">
                 {recommendation.suggestedCountries.map(c => (
                   <div key={c} className="flex items-center bg-sky-500/30 rounded-full border border-white/10 overflow-hidden hover:bg-sky-500/50 transition-all group/chip">
                     <span className="text-[9px] px-2.5 py-1 text-white font-bold">{c}</span>
                     <button 
-                      onClick={(e) => { 
-                        e.stopPropagation(); 
-                        setSearchQuery(`@${c}`); 
-                        setSelectedCountry(null);
-                        setCurrentFilterType('search');
-                      }} 
+                      onClick={(e) => { e.stopPropagation(); filterBySuggestedCountry(c); }}
                       className="p-1 px-2 border-l border-white/10 bg-white/5 hover:bg-white/20 text-white/70 hover:text-white transition-all flex items-center justify-center"
                       title={`Filter by ${c}`}
                     >
@@ -469,7 +919,10 @@ const App: React.FC = () => {
           )}
           {recentlyPlayed.length > 0 && (
             <div className="mb-8 border-t border-white/5 pt-8">
-              <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">History</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">History</h3>
+                <button onClick={() => setIsHistoryOpen(true)} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-sky-400 transition-colors">See all</button>
+              </div>
               <div className="flex flex-col gap-2">
                 {recentlyPlayed.map(station => (
                   <button key={`recent-${station.stationuuid}`} onClick={() => playStation(station)} className={`flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 transition-all text-left ${currentStation?.stationuuid === station.stationuuid ? 'border-sky-500/30 bg-sky-500/5' : ''}`}>
@@ -499,26 +952,86 @@ const App: React.FC = () => {
         </aside>
 
         <section className="flex-1 overflow-y-auto p-4 md:p-8 relative custom-scrollbar">
+          <StorageNotice />
+          {sharedStation && (
+            <div className="mb-6 flex items-center gap-4 p-4 rounded-2xl bg-gradient-to-r from-sky-500/15 to-indigo-500/10 border border-sky-500/20 animate-in fade-in slide-in-from-top-2">
+              <div className="w-12 h-12 bg-slate-800 rounded-xl flex-shrink-0 flex items-center justify-center overflow-hidden border border-white/5">
+                {sharedStation.favicon ? <img src={sharedStation.favicon} alt="" className="w-full h-full object-contain p-1" onError={(e) => (e.currentTarget.style.display = 'none')}/> : <ICONS.Radio />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-bold text-sky-400 uppercase tracking-widest">Shared with you</div>
+                <div className="text-sm font-bold text-white truncate">{sharedStation.name}</div>
+                <div className="text-[11px] text-slate-400 truncate">{sharedStation.countrycode && `${getFlagEmoji(sharedStation.countrycode)} `}{sharedStation.country}</div>
+              </div>
+              <button onClick={() => playStation(sharedStation)} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-sky-500 hover:bg-sky-400 text-white text-xs font-bold uppercase tracking-widest shadow-lg shadow-sky-500/20 transition-all">
+                <div className="scale-75"><ICONS.Play /></div><span>Play</span>
+              </button>
+              <button onClick={() => setSharedStation(null)} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Dismiss">
+                <ICONS.Close />
+              </button>
+            </div>
+          )}
+          {countriesError !== null && (
+            <div className="mb-4">
+              <ErrorState error={countriesError} onRetry={fetchCountries} title="Country list unavailable" compact />
+            </div>
+          )}
           <div className="mb-10">
-            <WorldMap countries={countries} onSelectCountry={handleCountrySelect} selectedCountry={selectedCountry} />
+            <WorldMap
+              countries={countries}
+              onSelectCountry={handleCountrySelect}
+              selectedCountry={selectedCountry}
+              stations={currentFilterType === 'country' || currentFilterType === 'search' ? stations : NO_MAP_STATIONS}
+              currentStationId={currentStation?.stationuuid}
+              onPlayStation={playStation}
+            />
           </div>
           {favorites.length > 0 && (
-            <div className="mb-12">
-              <div className="flex items-center gap-2 mb-6"><div className="text-yellow-400"><ICONS.StarFilled /></div><h2 className="text-xl font-outfit font-bold text-white">Your Collection</h2></div>
-              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">{favorites.map(station => renderStationCard(station))}</div>
-            </div>
+            <CollectionsSection
+              favorites={favorites}
+              collections={collections}
+              playingCollectionId={playingCollectionId}
+              renderStation={renderStationCard}
+              onReorderFavorites={(from, to) => setFavorites(prev => moveItem(prev, from, to))}
+              onReorderCollection={reorderCollection}
+              onCreateCollection={(name) => createCollection(name)}
+              onRenameCollection={renameCollection}
+              onDeleteCollection={handleDeleteCollection}
+              onPlayCollection={playCollection}
+              onOpenTransfer={() => setIsTransferOpen(true)}
+            />
           )}
           <div className="mb-24">
             <div className="flex flex-col gap-6 mb-8">
               <div className="flex flex-wrap items-center justify-between gap-4">
                 <div className="flex items-center gap-3">
                   <h2 className="text-2xl font-outfit font-bold text-white">
-                    {selectedCountry ? `Stations in ${countries.find(c => c.iso_3166_1 === selectedCountry)?.name || selectedCountry}` : searchQuery ? `Results for "${searchQuery}"` : recommendation ? `AI Recommended: ${recommendation.genre}` : 'Global Top Frequencies'}
+                    {listTitle}
                   </h2>
                   {(selectedCountry || searchQuery || recommendation) && <button onClick={handleGlobalReset} className="text-[10px] text-slate-500 hover:text-sky-400 font-bold uppercase tracking-[0.2em] transition-colors"> Reset Filters </button>}
                 </div>
                 {loading && <div className="w-5 h-5 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
               </div>
+              {currentFilterType === 'search' && (parsedQuery.filters.length > 0 || parsedQuery.errors.length > 0) && (
+                <div className="flex flex-wrap items-center gap-2 -mt-2">
+                  {parsedQuery.filters.map(token => (
+                    <span key={`${token.start}-${token.filter.key}`} className="flex items-center bg-sky-500/15 rounded-full border border-sky-500/20 overflow-hidden animate-in fade-in">
+                      <span className="text-[10px] pl-3 pr-1 py-1 text-sky-300 font-bold">{describeFilter(token.filter)}</span>
+                      <button onClick={() => setSearchQuery(removeSearchToken(liveQuery, token))} className="px-2 py-1 text-sky-300/70 hover:text-white transition-colors" title="Remove filter">
+                        <div className="scale-[0.6]"><ICONS.Close /></div>
+                      </button>
+                    </span>
+                  ))}
+                  {parsedQuery.errors.map(err => (
+                    <span key={`${err.start}-error`} className="flex items-center bg-rose-500/10 rounded-full border border-rose-500/20 overflow-hidden" title={err.message}>
+                      <span className="text-[10px] pl-3 pr-1 py-1 text-rose-300 font-bold"><code>{err.raw}</code> · {err.message}</span>
+                      <button onClick={() => setSearchQuery(removeSearchToken(liveQuery, err))} className="px-2 py-1 text-rose-300/70 hover:text-white transition-colors" title="Remove">
+                        <div className="scale-[0.6]"><ICONS.Close /></div>
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="flex items-center gap-2 bg-slate-900/50 p-1 rounded-2xl border border-white/5 w-fit max-w-full overflow-x-auto no-scrollbar">
                 {sortOptions.map((opt) => (
                   <button key={opt.value} onClick={() => setSortBy(opt.value)} className={`px-4 py-1.5 rounded-xl text-[10px] font-bold uppercase tracking-wider transition-all whitespace-nowrap ${sortBy === opt.value ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}>{opt.label}</button>
@@ -526,8 +1039,11 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
-              {stations.map((station) => renderStationCard(station))}
-              {!loading && stations.length === 0 && (
+              {listedStations.map((station) => renderStationCard(station, s => playFromList(s, listTitle, listedStations)))}
+              {!loading && stationsError && !stationsError.isAppend && (
+                <ErrorState error={stationsError.error} onRetry={() => fetchStations()} />
+              )}
+              {!loading && !stationsError && stations.length === 0 && (
                 <div className="col-span-full py-24 text-center text-slate-500 flex flex-col items-center gap-4">
                   <div className="p-4 bg-slate-900 rounded-full border border-white/5 opacity-50"><ICONS.Radio /></div>
                   <p className="font-medium">No frequencies found on this band.</p>
@@ -535,6 +1051,16 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
+            {listedStations.length < stations.length && (
+              <p className="mt-6 text-center text-[11px] text-slate-500">
+                {stations.length - listedStations.length} unreachable {stations.length - listedStations.length === 1 ? 'station' : 'stations'} hidden · <button onClick={() => setIsSettingsOpen(true)} className="text-sky-500 font-bold hover:underline">Change</button>
+              </p>
+            )}
+            {stationsError?.isAppend && (
+              <div className="mt-8">
+                <ErrorState error={stationsError.error} onRetry={() => fetchStations(true)} title="Couldn't load more" compact />
+              </div>
+            )}
             {hasMore && (
               <div ref={observerTarget} className="w-full h-20 flex items-center justify-center mt-8">
                 {(loading || loadingMore) && <div className="flex items-center gap-3 text-sky-500 font-bold text-[10px] tracking-[0.3em] animate-pulse">TUNING TO MORE STATIONS...</div>}
@@ -543,7 +1069,54 @@ const App: React.FC = () => {
           </div>
         </section>
       </main>
-      <RadioPlayer station={currentStation} isPlaying={isPlaying} onTogglePlay={togglePlay} />
+      <RadioPlayer
+        station={currentStation}
+        isPlaying={isPlaying}
+        onTogglePlay={togglePlay}
+        onSkip={stepStation}
+        shareUrl={currentStation ? buildStationShareUrl(currentStation.stationuuid, currentRoute) : ''}
+        playlist={playlist.length > 0 ? {
+          name: playlistName,
+          position: playlistIndex,
+          length: playlist.length,
+          onNext: () => stepPlaylist(1),
+          onPrevious: () => stepPlaylist(-1),
+        } : undefined}
+        volumeEnvelope={sleepTimer.envelope ?? alarm.envelope}
+        onPlaybackError={handlePlaybackError}
+        onAudibleChange={setIsAudible}
+        crossfadeSeconds={preferences.crossfadeSeconds}
+        onSwitchFailed={setCurrentStation}
+        onShowSimilar={currentStation ? () => setSimilarTo(currentStation) : undefined}
+        sleepTimer={sleepTimer}
+        alarm={alarm}
+        alarmStations={favorites}
+      />
+      <FailoverToast notice={failoverNotice} onUndo={undoFailover} onDismiss={dismissFailover} />
+      <SimilarStationsPanel
+        station={similarTo}
+        onClose={() => setSimilarTo(null)}
+        currentStationId={currentStation?.stationuuid}
+        onPlay={(station, matches) => playFromList(station, `Like ${similarTo?.name}`, matches)}
+      />
+      <DjChatPanel isOpen={isDjOpen} onClose={() => setIsDjOpen(false)} chat={djChat} onFilterCountry={filterBySuggestedCountry} />
+      <CommandPalette isOpen={isPaletteOpen} onClose={() => setIsPaletteOpen(false)} items={isPaletteOpen ? buildPaletteItems() : []} />
+      <ShortcutsHelp isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} />
+      <SettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} onOpenTransfer={() => setIsTransferOpen(true)} />
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        history={history}
+        onClearRange={clearRange}
+        onPlayStation={(id) => { setIsHistoryOpen(false); playFromHistory(id); }}
+      />
+      <PlaylistTransferPanel
+        isOpen={isTransferOpen}
+        onClose={() => setIsTransferOpen(false)}
+        favorites={favorites}
+        collections={collections}
+        onImport={handleImport}
+      />
     </div>
   );
 };
@@ -0,0 +1,161 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { DynamicsMode } from '../types';
+import { AudioProcessing, TARGET_LOUDNESS_DB } from '../hooks/useAudioProcessing';
+import { EQ_BANDS, EQ_MAX_DB, EQ_PRESETS, formatBandFrequency } from '../utils/equalizer';
+import { ICONS } from '../constants';
+
+interface AudioProcessingPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  processing: AudioProcessing;
+  stationName: string;
+  /** The stream plays without CORS, so none of the processing reaches it. */
+  isCorsBlocked: boolean;
+}
+
+const DYNAMICS_OPTIONS: { value: DynamicsMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'compressor', label: 'Compressor' },
+  { value: 'limiter', label: 'Limiter' },
+];
+
+const formatDb = (db: number) => `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <button
+    role="switch"
+    aria-checked={checked}
+    aria-label={label}
+    onClick={() => onChange(!checked)}
+    className={`relative w-10 h-5 rounded-full border transition-colors ${checked ? 'bg-sky-500 border-sky-400' : 'bg-slate-800 border-white/10'}`}
+  >
+    <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-all ${checked ? 'left-5' : 'left-0.5'}`}></span>
+  </button>
+);
+
+const AudioProcessingPanel: React.FC<AudioProcessingPanelProps> = ({ isOpen, onClose, processing, stationName, isCorsBlocked }) => {
+  if (!isOpen) return null;
+
+  const { settings, eq, hasStationEq, normalizeDb } = processing;
+  const isBypassed = settings.bypass;
+
+  // The player bar's backdrop-filter would trap a fixed overlay inside it, so render at the document root
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] overflow-y-auto glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="min-w-0">
+            <h2 className="font-outfit font-semibold text-white text-lg">Sound</h2>
+            <p className="text-[11px] text-slate-500 truncate">{stationName}</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => processing.setBypass(!isBypassed)}
+              className={`px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-all ${isBypassed ? 'bg-amber-500/15 border-amber-500/30 text-amber-300' : 'bg-white/5 border-white/10 text-slate-400 hover:text-sky-400'}`}
+              title="Compare with the untouched stream"
+            >
+              {isBypassed ? 'Bypassed' : 'Bypass'}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+              <ICONS.Close />
+            </button>
+          </div>
+        </div>
+
+        {isCorsBlocked && (
+          <p className="text-[11px] text-amber-300/90 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2 mb-5 leading-relaxed">
+            This station doesn't allow cross-origin access, so the browser won't let the page process its audio. Settings are kept and apply to other stations, or to this one when it plays through the stream relay.
+          </p>
+        )}
+
+        <div className={`transition-opacity ${isBypassed ? 'opacity-40' : ''}`}>
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Equalizer</h3>
+                <p className="text-[11px] text-slate-500">{hasStationEq ? 'Saved for this station' : 'Shared by all stations'}</p>
+              </div>
+              {hasStationEq ? (
+                <button onClick={processing.clearStationEq} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-sky-400 text-[10px] font-bold uppercase tracking-widest transition-all">
+                  Use shared EQ
+                </button>
+              ) : (
+                <button onClick={processing.saveEqForStation} className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-sky-400 text-[10px] font-bold uppercase tracking-widest transition-all">
+                  Save for this station
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1.5 mb-4">
+              {EQ_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => processing.applyPreset(preset.id)}
+                  className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest border transition-all ${eq.preset === preset.id ? 'bg-sky-500 border-sky-400 text-white' : 'bg-white/5 border-white/5 text-slate-400 hover:text-white'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+              {eq.preset === 'custom' && (
+                <span className="px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-widest border border-sky-500/30 text-sky-300">Custom</span>
+              )}
+            </div>
+            <div className="grid grid-cols-10 gap-1 bg-slate-900/50 rounded-2xl border border-white/5 px-2 py-4">
+              {EQ_BANDS.map((frequency, band) => (
+                <div key={frequency} className="flex flex-col items-center gap-2">
+                  <span className="text-[9px] text-slate-400 tabular-nums h-3">{eq.gains[band] > 0 ? '+' : ''}{eq.gains[band]}</span>
+                  <input
+                    type="range"
+                    min={-EQ_MAX_DB}
+                    max={EQ_MAX_DB}
+                    step={0.5}
+                    value={eq.gains[band]}
+                    onChange={(e) => processing.setBandGain(band, parseFloat(e.target.value))}
+                    onDoubleClick={() => processing.setBandGain(band, 0)}
+                    aria-label={`${formatBandFrequency(frequency)}Hz`}
+                    className="h-32 w-4 accent-sky-500 cursor-pointer [writing-mode:vertical-lr] [direction:rtl]"
+                  />
+                  <span className="text-[9px] font-bold text-slate-500">{formatBandFrequency(frequency)}</span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="mt-6 pt-6 border-t border-white/5">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Dynamics</h3>
+            <p className="text-[11px] text-slate-500 mb-3">The compressor evens out loud and quiet passages; the limiter only catches peaks.</p>
+            <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-xl border border-white/5 w-fit">
+              {DYNAMICS_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => processing.setDynamics(option.value)}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${settings.dynamics === option.value ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="mt-6 pt-6 border-t border-white/5">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Loudness normalisation</h3>
+                <p className="text-[11px] text-slate-500">
+                  Measures each station over time and brings it towards {TARGET_LOUDNESS_DB} dB, so switching stations keeps a steady volume.
+                </p>
+              </div>
+              <Toggle checked={settings.normalize} onChange={processing.setNormalize} label="Loudness normalisation" />
+            </div>
+            {settings.normalize && processing.isActive && (
+              <p className="text-[11px] text-sky-300 mt-2 tabular-nums">Current correction: {formatDb(normalizeDb)}</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AudioProcessingPanel;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { FavoriteCollection } from '../types';
+import { ICONS } from '../constants';
+
+interface CollectionPickerProps {
+  stationId: string;
+  collections: FavoriteCollection[];
+  onToggle: (collectionId: string) => void;
+  onCreate: (name: string) => void;
+  onClose: () => void;
+}
+
+const CollectionPicker: React.FC<CollectionPickerProps> = ({ stationId, collections, onToggle, onCreate, onClose }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 cursor-default" onClick={(e) => { e.stopPropagation(); onClose(); }}></div>
+      <div
+        className="absolute right-12 top-2 z-50 w-56 glass rounded-2xl border border-white/10 shadow-2xl p-2 cursor-default animate-in fade-in zoom-in-95 duration-150"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-2 pt-1 pb-2 text-[9px] font-bold text-slate-500 uppercase tracking-widest">Add to collection</div>
+        <div className="flex flex-col max-h-48 overflow-y-auto custom-scrollbar">
+          {collections.map(c => {
+            const isIn = c.stationIds.includes(stationId);
+            return (
+              <button key={c.id} onClick={() => onToggle(c.id)} className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-xs text-slate-300 hover:bg-white/5 transition-colors">
+                <span className={`w-4 h-4 rounded flex items-center justify-center border shrink-0 ${isIn ? 'bg-yellow-400 border-yellow-400 text-slate-900' : 'border-white/20'}`}>
+                  {isIn && <div className="scale-[0.6]"><ICONS.Check /></div>}
+                </span>
+                <span className="truncate">{c.name}</span>
+              </button>
+            );
+          })}
+          {collections.length === 0 && <div className="px-2 py-1 text-[11px] text-slate-500">No collections yet.</div>}
+        </div>
+        <form onSubmit={handleCreate} className="mt-2 pt-2 border-t border-white/5">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection..."
+            className="w-full bg-slate-900 border border-white/5 rounded-lg px-2 py-1.5 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-yellow-400/30"
+          />
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default CollectionPicker;
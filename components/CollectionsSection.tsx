@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { Station, FavoriteCollection } from '../types';
+import { ICONS } from '../constants';
+
+interface CollectionsSectionProps {
+  favorites: Station[];
+  collections: FavoriteCollection[];
+  /** Collection being played through, or 'all' for the plain favorites list. */
+  playingCollectionId: string | null;
+  renderStation: (station: Station) => React.ReactNode;
+  onReorderFavorites: (from: number, to: number) => void;
+  onReorderCollection: (id: string, from: number, to: number) => void;
+  onCreateCollection: (name: string) => string;
+  onRenameCollection: (id: string, name: string) => void;
+  onDeleteCollection: (id: string) => void;
+  onPlayCollection: (collectionId: string) => void;
+  onOpenTransfer: () => void;
+}
+
+export const ALL_FAVORITES = 'all';
+
+const CollectionsSection: React.FC<CollectionsSectionProps> = ({
+  favorites, collections, playingCollectionId, renderStation,
+  onReorderFavorites, onReorderCollection, onCreateCollection, onRenameCollection, onDeleteCollection, onPlayCollection, onOpenTransfer
+}) => {
+  const [activeId, setActiveId] = useState<string>(ALL_FAVORITES);
+  const [editing, setEditing] = useState<{ id: string | null; name: string } | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const activeCollection = collections.find(c => c.id === activeId) ?? null;
+  const isAll = !activeCollection;
+
+  const visibleStations = useMemo(() => {
+    if (!activeCollection) return favorites;
+    const byId = new Map(favorites.map(s => [s.stationuuid, s]));
+    return activeCollection.stationIds.map(id => byId.get(id)).filter((s): s is Station => Boolean(s));
+  }, [activeCollection, favorites]);
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (name) {
+      if (editing.id) onRenameCollection(editing.id, name);
+      else setActiveId(onCreateCollection(name));
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!activeCollection || !window.confirm(`Delete the collection "${activeCollection.name}"? Its stations stay in your favorites.`)) return;
+    onDeleteCollection(activeCollection.id);
+    setActiveId(ALL_FAVORITES);
+  };
+
+  const handleDrop = (to: number) => {
+    if (dragIndex !== null && dragIndex !== to) {
+      if (activeCollection) {
+        // Collections can list ids whose favorite is gone; map back to positions in stationIds
+        const from = activeCollection.stationIds.indexOf(visibleStations[dragIndex].stationuuid);
+        const target = activeCollection.stationIds.indexOf(visibleStations[to].stationuuid);
+        onReorderCollection(activeCollection.id, from, target);
+      } else {
+        onReorderFavorites(dragIndex, to);
+      }
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const tabClass = (active: boolean) => `px-3 py-1.5 rounded-xl text-[10px] font-bold uppercase tracking-wider transition-all whitespace-nowrap ${active ? 'bg-yellow-400/90 text-slate-900 shadow-lg' : 'text-slate-500 hover:text-slate-300'}`;
+
+  const renderNameInput = () => (
+    <input
+      autoFocus
+      value={editing?.name ?? ''}
+      onChange={(e) => setEditing(prev => prev && { ...prev, name: e.target.value })}
+      onBlur={commitEdit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commitEdit(); else if (e.key === 'Escape') setEditing(null); }}
+      placeholder="Collection name"
+      className="w-36 bg-slate-900 border border-yellow-400/30 rounded-xl px-3 py-1 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-yellow-400/30"
+    />
+  );
+
+  return (
+    <div className="mb-12">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2"><div className="text-yellow-400"><ICONS.StarFilled /></div><h2 className="text-xl font-outfit font-bold text-white">Your Collection</h2></div>
+        <div className="flex items-center gap-2">
+          {activeCollection && (
+            <>
+              <button onClick={() => setEditing({ id: activeCollection.id, name: activeCollection.name })} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Rename collection"><ICONS.Pencil /></button>
+              <button onClick={handleDelete} className="p-2 rounded-full text-slate-500 hover:text-rose-400 hover:bg-white/5 transition-colors" title="Delete collection"><ICONS.Trash /></button>
+            </>
+          )}
+          <button onClick={onOpenTransfer} className="px-3 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-sky-400 transition-colors" title="Import or export as a playlist file">
+            Import / Export
+          </button>
+          <button
+            onClick={() => onPlayCollection(activeCollection?.id ?? ALL_FAVORITES)}
+            disabled={visibleStations.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl bg-yellow-400/10 border border-yellow-400/20 text-yellow-300 hover:bg-yellow-400/20 disabled:opacity-40 disabled:cursor-not-allowed text-[10px] font-bold uppercase tracking-widest transition-all"
+          >
+            <div className="scale-75"><ICONS.Play /></div>
+            <span>{playingCollectionId === activeId ? 'Restart' : 'Play All'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 bg-slate-900/50 p-1 rounded-2xl border border-white/5 w-fit max-w-full overflow-x-auto no-scrollbar mb-6">
+        <button onClick={() => setActiveId(ALL_FAVORITES)} className={tabClass(isAll)}>All · {favorites.length}</button>
+        {collections.map(c => (
+          editing?.id === c.id ? <React.Fragment key={c.id}>{renderNameInput()}</React.Fragment> : (
+            <button key={c.id} onClick={() => setActiveId(c.id)} onDoubleClick={() => setEditing({ id: c.id, name: c.name })} className={tabClass(c.id === activeId)}>
+              {c.name} · {c.stationIds.length}
+              {playingCollectionId === c.id && <span className="inline-block ml-1.5 w-1.5 h-1.5 rounded-full bg-sky-500 animate-pulse align-middle"></span>}
+            </button>
+          )
+        ))}
+        {editing && editing.id === null ? renderNameInput() : (
+          <button onClick={() => setEditing({ id: null, name: '' })} className="px-3 py-1.5 rounded-xl text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:text-yellow-300 transition-all whitespace-nowrap">+ New</button>
+        )}
+      </div>
+
+      {visibleStations.length === 0 ? (
+        <div className="py-10 text-center text-xs text-slate-500 border border-dashed border-white/10 rounded-2xl">
+          This collection is empty. Use the <span className="inline-block align-middle scale-75"><ICONS.ListPlus /></span> button on any station to add it.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+          {visibleStations.map((station, index) => (
+            <div
+              key={station.stationuuid}
+              draggable
+              onDragStart={(e) => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { if (dragIndex === null) return; e.preventDefault(); setDropIndex(index); }}
+              onDragLeave={() => setDropIndex(prev => prev === index ? null : prev)}
+              onDrop={(e) => { e.preventDefault(); handleDrop(index); }}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+              className={`relative group/drag rounded-2xl transition-all ${dragIndex === index ? 'opacity-40' : ''} ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-yellow-400/50' : ''}`}
+            >
+              <div className="absolute -left-1 top-1/2 -translate-y-1/2 z-10 text-slate-600 opacity-0 group-hover/drag:opacity-100 cursor-grab transition-opacity pointer-events-none"><ICONS.Grip /></div>
+              {renderStation(station)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionsSection;
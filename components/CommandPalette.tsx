@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { MAX_PALETTE_RECENT } from '../services/storage';
+import { RankableItem, rankItems } from '../utils/fuzzyMatch';
+import { ICONS } from '../constants';
+
+export interface PaletteItem extends RankableItem {
+  group: 'Action' | 'Favorite' | 'History' | 'Country' | 'Tag' | 'AI prompt';
+  detail?: string;
+  /** An emoji or flag shown in front of the title. */
+  icon?: string;
+  /** When the user last used this outside the palette, e.g. last listened to a station. */
+  lastUsedAt?: number;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: PaletteItem[];
+}
+
+const MAX_RESULTS = 12;
+
+const GROUP_STYLES: Record<PaletteItem['group'], string> = {
+  Action: 'text-sky-400',
+  Favorite: 'text-yellow-400',
+  History: 'text-slate-400',
+  Country: 'text-emerald-400',
+  Tag: 'text-violet-300',
+  'AI prompt': 'text-indigo-300',
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ isOpen, onClose, items }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recent, setRecent] = usePersistentState('paletteRecent');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setActiveIndex(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  const results = useMemo(() => {
+    if (!isOpen) return [];
+    const lastUsed: Record<string, number> = { ...recent };
+    items.forEach(item => {
+      if (item.lastUsedAt !== undefined) lastUsed[item.id] = Math.max(lastUsed[item.id] ?? 0, item.lastUsedAt);
+    });
+    return rankItems(items, query, lastUsed, MAX_RESULTS);
+  }, [isOpen, items, query, recent]);
+
+  useEffect(() => { setActiveIndex(0); }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const pick = (item: PaletteItem) => {
+    setRecent(prev => Object.fromEntries(Object.entries<number>({ ...prev, [item.id]: Date.now() }).sort(([, a], [, b]) => b - a).slice(0, MAX_PALETTE_RECENT)));
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => results.length ? (i + 1) % results.length : 0);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => results.length ? (i - 1 + results.length) % results.length : 0);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) pick(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-black/60 backdrop-blur-sm p-4 pt-[12vh]" onClick={onClose}>
+      <div className="w-full max-w-xl glass rounded-3xl border border-white/10 shadow-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-150" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-5 border-b border-white/5">
+          <span className="text-slate-500"><ICONS.Search /></span>
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Stations, countries, tags, actions…"
+            className="flex-1 bg-transparent py-4 text-sm text-white placeholder:text-slate-600 focus:outline-none"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `palette-${results[activeIndex].id}` : undefined}
+          />
+          <kbd className="px-1.5 py-0.5 rounded-md bg-slate-900/70 border border-white/10 text-[10px] font-bold text-slate-500">Esc</kbd>
+        </div>
+        {results.length === 0 ? (
+          <p className="px-5 py-8 text-center text-sm text-slate-500">Nothing matches “{query}”.</p>
+        ) : (
+          <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-[50vh] overflow-y-auto p-2">
+            {results.map((item, index) => (
+              <li
+                key={item.id}
+                id={`palette-${item.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => pick(item)}
+                className={`flex items-center gap-3 px-3 py-2.5 rounded-xl cursor-pointer transition-colors ${index === activeIndex ? 'bg-sky-500/15' : ''}`}
+              >
+                <span className="w-6 text-center text-base shrink-0">{item.icon ?? ''}</span>
+                <div className="min-w-0 flex-1">
+                  <p className={`text-sm truncate ${index === activeIndex ? 'text-white' : 'text-slate-300'}`}>{item.title}</p>
+                  {item.detail && <p className="text-[10px] text-slate-500 truncate">{item.detail}</p>}
+                </div>
+                <span className={`text-[9px] font-bold uppercase tracking-widest shrink-0 ${GROUP_STYLES[item.group]}`}>{item.group}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
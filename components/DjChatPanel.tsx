@@ -0,0 +1,185 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DjChat } from '../hooks/useDjChat';
+import { ICONS } from '../constants';
+
+interface DjChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chat: DjChat;
+  onFilterCountry: (country: string) => void;
+}
+
+const STEERING_HINTS = ['More upbeat', 'Less vocals', 'Closer to Portugal', 'Something older'];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DjChatPanel: React.FC<DjChatPanelProps> = ({ isOpen, onClose, chat, onFilterCountry }) => {
+  const [draft, setDraft] = useState('');
+  const [showSaved, setShowSaved] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const { conversation, conversations, isThinking, error } = chat;
+  const turns = conversation?.turns ?? [];
+  const activeIndex = turns.findIndex(t => t.id === conversation?.activeTurnId);
+
+  useEffect(() => {
+    if (isOpen) endRef.current?.scrollIntoView({ block: 'end' });
+  }, [isOpen, turns.length, isThinking]);
+
+  if (!isOpen) return null;
+
+  const submit = (text: string) => {
+    if (!text.trim() || isThinking) return;
+    chat.send(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-start bg-black/20" onClick={onClose}>
+      <aside className="w-full max-w-md h-full flex flex-col glass border-r border-white/10 shadow-2xl animate-in slide-in-from-left duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-4 p-6 pb-4 border-b border-white/5">
+          <div className="min-w-0">
+            <h2 className="font-outfit font-semibold text-white text-lg flex items-center gap-2"><span className="text-sky-400"><ICONS.Sparkles /></span> AI DJ</h2>
+            <p className="text-[11px] text-slate-500 truncate">{conversation ? conversation.title : 'New conversation'}</p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <button
+              onClick={() => setShowSaved(prev => !prev)}
+              className={`px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-all ${showSaved ? 'bg-sky-500/15 border-sky-500/30 text-sky-300' : 'bg-white/5 border-white/10 text-slate-400 hover:text-sky-400'}`}
+            >
+              Saved ({conversations.length})
+            </button>
+            <button
+              onClick={() => { chat.startNew(); setShowSaved(false); }}
+              disabled={!conversation}
+              className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-sky-400 disabled:opacity-40 disabled:hover:text-slate-400 text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              New
+            </button>
+            <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+              <ICONS.Close />
+            </button>
+          </div>
+        </div>
+
+        {showSaved ? (
+          <div className="flex-1 overflow-y-auto p-4">
+            {conversations.length === 0 ? (
+              <p className="py-16 text-center text-sm text-slate-500">No saved conversations yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {conversations.map(saved => (
+                  <li key={saved.id} className={`group flex items-center gap-2 p-2 rounded-xl border transition-all ${saved.id === conversation?.id ? 'border-sky-500/30 bg-sky-500/5' : 'border-transparent hover:bg-white/5'}`}>
+                    <button onClick={() => { chat.openConversation(saved.id); setShowSaved(false); }} className="min-w-0 flex-1 text-left">
+                      <p className="text-sm text-white truncate">{saved.title}</p>
+                      <p className="text-[10px] text-slate-500 truncate">
+                        {saved.turns.length} {saved.turns.length === 1 ? 'turn' : 'turns'} · {saved.turns.find(t => t.id === saved.activeTurnId)?.recommendation.genre} · {formatDate(saved.updatedAt)}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => { if (window.confirm(`Delete the conversation "${saved.title}"?`)) chat.deleteConversation(saved.id); }}
+                      className="p-2 rounded-full text-slate-600 hover:text-rose-400 hover:bg-white/5 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+                      title="Delete conversation"
+                    >
+                      <ICONS.Trash />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-3">
+            {turns.length === 0 && !isThinking && (
+              <div className="py-10 text-center">
+                <p className="text-sm text-slate-400 mb-1">Describe what you'd like to hear, then steer.</p>
+                <p className="text-[11px] text-slate-500">Each message refines the last pick. Click an earlier answer to go back and branch off from it.</p>
+              </div>
+            )}
+            {turns.map((turn, index) => {
+              const isActive = index === activeIndex;
+              // Turns after the active one stay here; the next message branches off without them
+              const isAbandoned = activeIndex !== -1 && index > activeIndex;
+              return (
+                <div key={turn.id} className={`space-y-2 transition-opacity ${isAbandoned ? 'opacity-40' : ''}`}>
+                  <div className="flex justify-end">
+                    <p className="max-w-[85%] px-3 py-2 rounded-2xl rounded-br-md bg-sky-500/20 border border-sky-500/20 text-xs text-white">{turn.prompt}</p>
+                  </div>
+                  <div
+                    onClick={() => { if (!isActive) chat.selectTurn(turn.id); }}
+                    className={`p-4 rounded-2xl rounded-bl-md border transition-all ${isActive ? 'bg-gradient-to-br from-sky-500/20 to-indigo-500/10 border-sky-500/30' : 'bg-slate-900/50 border-white/5 hover:border-white/15 cursor-pointer'}`}
+                    title={isActive ? undefined : 'Go back to this pick'}
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <h3 className="text-sky-300 font-bold text-xs uppercase tracking-[0.2em] truncate">{turn.recommendation.genre}</h3>
+                      {isActive
+                        ? <span className="text-[9px] font-bold text-sky-400 uppercase tracking-widest shrink-0">Current pick</span>
+                        : <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest shrink-0">Go back</span>}
+                    </div>
+                    {turn.recommendation.description && <p className="text-[11px] text-slate-300 leading-relaxed mb-3">{turn.recommendation.description}</p>}
+                    <div className="flex flex-wrap gap-1.5">
+                      {turn.recommendation.suggestedCountries.map(country => (
+                        <button
+                          key={country}
+                          onClick={(e) => { e.stopPropagation(); onFilterCountry(country); }}
+                          className="text-[9px] px-2.5 py-1 rounded-full bg-sky-500/20 border border-white/10 text-white font-bold hover:bg-sky-500/40 transition-all"
+                          title={`Filter by ${country}`}
+                        >
+                          {country}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {isThinking && (
+              <div className="flex items-center gap-3 px-1 text-sky-500 font-bold text-[10px] tracking-[0.3em] animate-pulse">
+                <div className="w-4 h-4 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div> CUEING UP...
+              </div>
+            )}
+            {error && <p className="text-[11px] text-rose-300 bg-rose-500/10 border border-rose-500/20 rounded-xl px-3 py-2">{error}</p>}
+            <div ref={endRef}></div>
+          </div>
+        )}
+
+        {!showSaved && (
+          <div className="p-4 border-t border-white/5">
+            {turns.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {STEERING_HINTS.map(hint => (
+                  <button
+                    key={hint}
+                    onClick={() => submit(hint)}
+                    disabled={isThinking}
+                    className="text-[10px] font-bold px-2.5 py-1.5 rounded-lg border bg-white/5 border-white/5 text-slate-500 hover:bg-white/10 hover:text-slate-300 disabled:opacity-50 transition-all"
+                  >
+                    {hint}
+                  </button>
+                ))}
+              </div>
+            )}
+            <form onSubmit={(e) => { e.preventDefault(); submit(draft); }} className="relative">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={turns.length > 0 ? 'Steer the DJ (e.g. "less vocals")...' : "Describe your destination..."}
+                className="w-full bg-slate-900 border border-white/5 rounded-2xl pl-4 pr-14 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500/30 transition-all placeholder:text-slate-600"
+              />
+              <button
+                type="submit"
+                disabled={isThinking || !draft.trim()}
+                className="absolute right-1.5 top-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 disabled:cursor-not-allowed text-white w-9 h-9 rounded-xl flex items-center justify-center transition-all shadow-lg"
+                title="Send"
+              >
+                <ICONS.Sparkles />
+              </button>
+            </form>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default DjChatPanel;
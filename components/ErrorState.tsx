@@ -0,0 +1,40 @@
+import React from 'react';
+import { getErrorMessage, RateLimitError } from '../services/apiErrors';
+import { ICONS } from '../constants';
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry: () => void;
+  title?: string;
+  compact?: boolean;
+}
+
+const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, title = 'Signal lost', compact = false }) => {
+  const message = getErrorMessage(error);
+  const isThrottled = error instanceof RateLimitError;
+
+  if (compact) {
+    return (
+      <div className="flex items-center justify-between gap-4 px-4 py-3 rounded-2xl bg-rose-500/10 border border-rose-500/20 text-xs">
+        <div className="min-w-0">
+          <span className="font-bold text-rose-400 uppercase tracking-wider text-[10px] mr-2">{title}</span>
+          <span className="text-slate-400">{message}</span>
+        </div>
+        <button onClick={onRetry} className="shrink-0 text-[10px] font-bold uppercase tracking-widest text-sky-500 hover:text-sky-400 transition-colors">Retry</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="col-span-full py-20 text-center text-slate-500 flex flex-col items-center gap-4 animate-in fade-in">
+      <div className={`p-4 rounded-full border ${isThrottled ? 'bg-amber-500/10 border-amber-500/20 text-amber-400' : 'bg-rose-500/10 border-rose-500/20 text-rose-400'}`}><ICONS.Radio /></div>
+      <div>
+        <p className="font-bold text-white mb-1">{title}</p>
+        <p className="text-sm max-w-sm">{message}</p>
+      </div>
+      <button onClick={onRetry} className="px-5 py-2 rounded-xl bg-sky-500 hover:bg-sky-400 text-white text-xs font-bold uppercase tracking-widest shadow-lg shadow-sky-500/20 transition-all">Try Again</button>
+    </div>
+  );
+};
+
+export default ErrorState;
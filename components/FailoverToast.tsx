@@ -0,0 +1,49 @@
+import React, { useEffect } from 'react';
+import { ICONS } from '../constants';
+
+export interface FailoverNotice {
+  /** Changes with every failover, so a new one restarts the timer. */
+  id: number;
+  failedName: string;
+  stationName: string;
+  /** Why this station was picked, e.g. "next in Favorites" or "similar: jazz · same language". */
+  reason: string;
+}
+
+interface FailoverToastProps {
+  notice: FailoverNotice | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+const VISIBLE_MS = 8000;
+
+const FailoverToast: React.FC<FailoverToastProps> = ({ notice, onUndo, onDismiss }) => {
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(onDismiss, VISIBLE_MS);
+    return () => clearTimeout(timeout);
+  }, [notice, onDismiss]);
+
+  if (!notice) return null;
+
+  return (
+    <div role="status" className="fixed bottom-28 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md glass rounded-2xl border border-white/10 shadow-2xl px-4 py-3 flex items-center gap-3 animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0"></span>
+      <div className="min-w-0 flex-1">
+        <p className="text-xs text-white truncate">
+          <span className="text-slate-400">{notice.failedName} is unreachable.</span> Now playing {notice.stationName}.
+        </p>
+        <p className="text-[10px] text-slate-500 truncate">{notice.reason}</p>
+      </div>
+      <button onClick={onUndo} className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sky-400 hover:text-white text-[10px] font-bold uppercase tracking-widest transition-all shrink-0">
+        Undo
+      </button>
+      <button onClick={onDismiss} className="p-1 rounded-full text-slate-500 hover:text-white transition-colors shrink-0" title="Dismiss">
+        <div className="scale-75"><ICONS.Close /></div>
+      </button>
+    </div>
+  );
+};
+
+export default FailoverToast;
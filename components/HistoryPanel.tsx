@@ -0,0 +1,236 @@
+import React, { useState, useMemo } from 'react';
+import { ListeningSession } from '../types';
+import { computeListeningStats, formatDuration, matchesHistoryQuery } from '../utils/listeningStats';
+import { ICONS } from '../constants';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  history: ListeningSession[];
+  onClearRange: (from: number | null, to: number | null) => void;
+  onPlayStation: (stationuuid: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 86_400_000;
+
+const getFlagEmoji = (countryCode: string) => countryCode.toUpperCase().replace(/./g, char => String.fromCodePoint(char.charCodeAt(0) + 127397));
+
+// <input type="date"> values are local calendar days
+const parseDay = (value: string): number | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, history, onClearRange, onPlayStation }) => {
+  const [tab, setTab] = useState<'stats' | 'history'>('stats');
+  const [query, setQuery] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  const from = parseDay(fromDay);
+  // The end date is inclusive, so the range runs to the following midnight
+  const toDate = parseDay(toDay);
+  const to = toDate !== null ? toDate + DAY_MS : null;
+
+  const inRange = useMemo(
+    () => history.filter(s => (from === null || s.startedAt >= from) && (to === null || s.startedAt < to)),
+    [history, from, to]
+  );
+  const filtered = useMemo(() => inRange.filter(s => matchesHistoryQuery(s, query)).reverse(), [inRange, query]);
+  const stats = useMemo(() => computeListeningStats(inRange), [inRange]);
+
+  const days = useMemo(() => {
+    const groups: { day: string; sessions: ListeningSession[] }[] = [];
+    for (const session of filtered) {
+      const day = formatDay(session.startedAt);
+      if (groups[groups.length - 1]?.day !== day) groups.push({ day, sessions: [] });
+      groups[groups.length - 1].sessions.push(session);
+    }
+    return groups;
+  }, [filtered]);
+
+  if (!isOpen) return null;
+
+  const hasRange = from !== null || to !== null;
+  const maxCell = Math.max(1, ...stats.heatmap.flat());
+  const maxCountry = Math.max(1, ...stats.byCountry.map(c => c.ms));
+
+  const handleClear = () => {
+    const description = hasRange ? `${inRange.length} sessions in the selected dates` : `all ${history.length} sessions`;
+    if (!window.confirm(`Delete ${description} from your listening history?`)) return;
+    onClearRange(from, to);
+  };
+
+  const tabClass = (active: boolean) => `px-4 py-1.5 rounded-xl text-[10px] font-bold uppercase tracking-wider transition-all ${active ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl h-[85vh] flex flex-col glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="flex items-center gap-4">
+            <h2 className="font-outfit font-semibold text-white text-lg">Your Listening</h2>
+            <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-2xl border border-white/5">
+              <button onClick={() => setTab('stats')} className={tabClass(tab === 'stats')}>Stats</button>
+              <button onClick={() => setTab('history')} className={tabClass(tab === 'history')}>History</button>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-5">
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+            From <input type="date" value={fromDay} max={toDay || undefined} onChange={(e) => setFromDay(e.target.value)} className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-xs text-slate-300 normal-case tracking-normal [color-scheme:dark]" />
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+            To <input type="date" value={toDay} min={fromDay || undefined} onChange={(e) => setToDay(e.target.value)} className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1 text-xs text-slate-300 normal-case tracking-normal [color-scheme:dark]" />
+          </label>
+          {hasRange && (
+            <button onClick={() => { setFromDay(''); setToDay(''); }} className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-sky-400 transition-colors">All time</button>
+          )}
+          <button
+            onClick={handleClear}
+            disabled={inRange.length === 0}
+            className="ml-auto px-3 py-1.5 rounded-lg border bg-rose-500/5 border-rose-500/20 text-rose-400 hover:bg-rose-500/10 disabled:opacity-40 disabled:cursor-not-allowed text-[10px] font-bold uppercase tracking-widest transition-all"
+          >
+            {hasRange ? 'Clear these dates' : 'Clear all'}
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar pr-1">
+          {inRange.length === 0 ? (
+            <div className="py-24 text-center text-sm text-slate-500">Nothing logged {hasRange ? 'in these dates' : 'yet'}. Sessions longer than a few seconds are recorded while you listen.</div>
+          ) : tab === 'stats' ? (
+            <div className="flex flex-col gap-6">
+              <div className="grid grid-cols-3 gap-3">
+                {[
+                  { label: 'Listened', value: formatDuration(stats.totalMs) },
+                  { label: 'Sessions', value: stats.sessionCount.toLocaleString() },
+                  { label: 'Countries visited', value: stats.countriesVisited.toLocaleString() },
+                ].map(card => (
+                  <div key={card.label} className="p-4 rounded-2xl bg-slate-900/50 border border-white/5">
+                    <div className="text-[10px] text-slate-500 uppercase tracking-widest font-bold mb-1">{card.label}</div>
+                    <div className="text-2xl font-outfit font-bold text-white">{card.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <section>
+                <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">When you listen</h3>
+                <div className="flex flex-col gap-1">
+                  {stats.heatmap.map((hours, day) => (
+                    <div key={day} className="flex items-center gap-1">
+                      <span className="w-8 text-[9px] text-slate-500 font-bold">{WEEKDAYS[day]}</span>
+                      {hours.map((ms, hour) => (
+                        <div
+                          key={hour}
+                          className="flex-1 h-4 rounded-sm bg-sky-500"
+                          style={{ opacity: ms === 0 ? 0.06 : 0.2 + 0.8 * (ms / maxCell) }}
+                          title={`${WEEKDAYS[day]} ${hour}:00 · ${formatDuration(ms)}`}
+                        ></div>
+                      ))}
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-1 pl-9 text-[8px] text-slate-600 font-bold">
+                    {[0, 6, 12, 18].map(hour => <span key={hour} className="flex-1">{hour}:00</span>)}
+                  </div>
+                </div>
+              </section>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <section>
+                  <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Hours by country</h3>
+                  <div className="flex flex-col gap-1.5">
+                    {stats.byCountry.slice(0, 10).map(country => (
+                      <div key={country.code} className="flex items-center gap-2 text-xs">
+                        <span className="w-5 text-center">{country.code !== '??' ? getFlagEmoji(country.code) : '🌐'}</span>
+                        <span className="w-24 truncate text-slate-300">{country.name}</span>
+                        <div className="flex-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                          <div className="h-full bg-sky-500 rounded-full" style={{ width: `${(country.ms / maxCountry) * 100}%` }}></div>
+                        </div>
+                        <span className="w-14 text-right text-[10px] text-slate-500 font-bold tabular-nums">{formatDuration(country.ms)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+                <section>
+                  <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Top tags</h3>
+                  <div className="flex flex-wrap gap-1.5">
+                    {stats.topTags.map(tag => (
+                      <span key={tag.tag} className="text-[10px] px-2.5 py-1 rounded-full bg-white/5 border border-white/5 text-slate-300 font-bold">
+                        #{tag.tag} <span className="text-slate-500 font-medium">{formatDuration(tag.ms)}</span>
+                      </span>
+                    ))}
+                    {stats.topTags.length === 0 && <span className="text-[11px] text-slate-500">No tags recorded.</span>}
+                  </div>
+                </section>
+              </div>
+
+              <section>
+                <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Top stations</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {stats.topStations.map((station, index) => (
+                    <button key={station.stationuuid} onClick={() => onPlayStation(station.stationuuid)} className="flex items-center gap-3 p-2 rounded-xl bg-white/5 border border-white/5 hover:bg-white/10 transition-all text-left">
+                      <span className="w-4 text-[10px] text-slate-500 font-bold">{index + 1}</span>
+                      <div className="w-8 h-8 bg-slate-800 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden">
+                        {station.favicon ? <img src={station.favicon} alt="" className="w-full h-full object-contain p-0.5" onError={(e) => (e.currentTarget.style.display = 'none')}/> : <ICONS.Radio />}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <div className="text-[11px] font-bold text-slate-200 truncate">{station.name}</div>
+                        <div className="text-[9px] text-slate-500">{formatDuration(station.ms)} · {station.sessions} sessions</div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </section>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-4">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by station, country, language or tag..."
+                className="w-full h-10 bg-slate-900 border border-white/5 rounded-full px-4 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500/50"
+              />
+              {days.map(group => (
+                <div key={group.day}>
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">{group.day}</div>
+                  <div className="flex flex-col gap-1.5">
+                    {group.sessions.map(session => (
+                      <button key={session.id} onClick={() => onPlayStation(session.stationuuid)} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-900/50 border border-white/5 hover:bg-white/5 transition-all text-left">
+                        <span className="w-12 text-[10px] text-slate-500 font-bold tabular-nums">{formatTime(session.startedAt)}</span>
+                        <div className="w-7 h-7 bg-slate-800 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden">
+                          {session.favicon ? <img src={session.favicon} alt="" className="w-full h-full object-contain p-0.5" onError={(e) => (e.currentTarget.style.display = 'none')}/> : <ICONS.Radio />}
+                        </div>
+                        <div className="min-w-0 flex-1">
+                          <div className="text-xs text-slate-200 truncate">{session.stationName}</div>
+                          <div className="text-[10px] text-slate-500 truncate">
+                            {[session.countrycode && `${getFlagEmoji(session.countrycode)} ${session.country}`, session.language, session.tags.slice(0, 3).map(t => `#${t}`).join(' ')].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        <span className="text-[10px] text-slate-400 font-bold tabular-nums">{formatDuration(session.durationMs)}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {days.length === 0 && <div className="py-12 text-center text-xs text-slate-500">No sessions match "{query}".</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,121 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { PlaybackDiagnostics } from '../hooks/usePlaybackPipeline';
+import { AttemptOutcome } from '../services/playbackPipeline';
+import { StrategyId, getStrategy } from '../utils/playbackStrategies';
+import { ICONS } from '../constants';
+
+interface PlaybackDiagnosticsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  diagnostics: PlaybackDiagnostics | null;
+  rememberedStrategy: StrategyId | null;
+  onRetry: () => void;
+  onForgetStrategy: () => void;
+}
+
+const MEDIA_ERRORS: Record<number, string> = {
+  1: 'MEDIA_ERR_ABORTED',
+  2: 'MEDIA_ERR_NETWORK',
+  3: 'MEDIA_ERR_DECODE',
+  4: 'MEDIA_ERR_SRC_NOT_SUPPORTED',
+};
+
+const OUTCOME_STYLES: Record<AttemptOutcome, string> = {
+  playing: 'bg-emerald-500/15 text-emerald-300 border-emerald-500/20',
+  error: 'bg-rose-500/15 text-rose-300 border-rose-500/20',
+  timeout: 'bg-amber-500/15 text-amber-300 border-amber-500/20',
+  blocked: 'bg-amber-500/15 text-amber-300 border-amber-500/20',
+  aborted: 'bg-slate-500/15 text-slate-400 border-white/10',
+};
+
+const STATUS_LABELS: Record<PlaybackDiagnostics['status'], string> = {
+  connecting: 'Connecting…',
+  playing: 'Playing',
+  failed: 'Failed',
+};
+
+const strategyLabel = (id: StrategyId | null) => (id && getStrategy(id)?.label) ?? 'None';
+
+const PlaybackDiagnosticsPanel: React.FC<PlaybackDiagnosticsPanelProps> = ({ isOpen, onClose, diagnostics, rememberedStrategy, onRetry, onForgetStrategy }) => {
+  if (!isOpen) return null;
+
+  const totalMs = diagnostics?.attempts.reduce((sum, a) => sum + a.latencyMs, 0) ?? 0;
+
+  // The player bar's backdrop-filter would trap a fixed overlay inside it, so render at the document root
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] flex flex-col glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="min-w-0">
+            <h2 className="font-outfit font-semibold text-white text-lg">Playback diagnostics</h2>
+            <p className="text-[11px] text-slate-500 truncate">{diagnostics?.stationName ?? 'Nothing has been played yet'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        {diagnostics && (
+          <>
+            <div className="grid grid-cols-3 gap-3 mb-5">
+              <div className="bg-slate-900/50 rounded-2xl border border-white/5 px-4 py-3">
+                <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Outcome</p>
+                <p className={`text-sm font-semibold mt-1 ${diagnostics.status === 'failed' ? 'text-rose-300' : diagnostics.status === 'playing' ? 'text-emerald-300' : 'text-sky-300'}`}>{STATUS_LABELS[diagnostics.status]}</p>
+              </div>
+              <div className="bg-slate-900/50 rounded-2xl border border-white/5 px-4 py-3">
+                <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Strategy</p>
+                <p className="text-sm font-semibold text-white mt-1 truncate">{strategyLabel(diagnostics.status === 'playing' ? diagnostics.strategy : null)}</p>
+              </div>
+              <div className="bg-slate-900/50 rounded-2xl border border-white/5 px-4 py-3">
+                <p className="text-[9px] font-bold text-slate-500 uppercase tracking-widest">Time to audio</p>
+                <p className="text-sm font-semibold text-white mt-1 tabular-nums">{(totalMs / 1000).toFixed(1)}s</p>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto -mx-1 px-1">
+              {diagnostics.attempts.length === 0 ? (
+                <p className="text-[11px] text-slate-500 py-6 text-center">No attempts yet.</p>
+              ) : (
+                <ol className="flex flex-col gap-2">
+                  {diagnostics.attempts.map((attempt, index) => (
+                    <li key={`${attempt.startedAt}-${index}`} className="bg-slate-900/40 rounded-2xl border border-white/5 px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <span className="text-[10px] text-slate-600 font-bold tabular-nums w-4">{index + 1}</span>
+                        <span className="text-[12px] font-semibold text-white flex-1 truncate">{strategyLabel(attempt.strategy)}</span>
+                        <span className="text-[10px] text-slate-400 tabular-nums">{attempt.latencyMs} ms</span>
+                        <span className={`text-[9px] font-bold uppercase tracking-widest px-2 py-0.5 rounded-full border ${OUTCOME_STYLES[attempt.outcome]}`}>{attempt.outcome}</span>
+                      </div>
+                      <p className="text-[10px] text-slate-500 truncate mt-1.5 pl-7" title={attempt.url}>{attempt.url}</p>
+                      {(attempt.mediaErrorCode !== null || attempt.message) && (
+                        <p className="text-[10px] text-rose-300/80 mt-0.5 pl-7">
+                          {attempt.mediaErrorCode !== null && <span className="font-mono">{MEDIA_ERRORS[attempt.mediaErrorCode] ?? `Code ${attempt.mediaErrorCode}`} </span>}
+                          {attempt.message}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between gap-3 mt-5 pt-4 border-t border-white/5">
+          <p className="text-[10px] text-slate-500">
+            Tried first next time: <span className="text-slate-300 font-semibold">{rememberedStrategy ? strategyLabel(rememberedStrategy) : 'the default order'}</span>
+          </p>
+          <div className="flex items-center gap-2">
+            {rememberedStrategy && (
+              <button onClick={onForgetStrategy} className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/5 text-[11px] font-bold text-slate-300 hover:text-white transition-colors">Forget</button>
+            )}
+            <button onClick={onRetry} className="px-3 py-1.5 rounded-xl bg-sky-500/20 border border-sky-500/30 text-[11px] font-bold text-sky-200 hover:bg-sky-500/30 transition-colors">Retry</button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PlaybackDiagnosticsPanel;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Station, FavoriteCollection } from '../types';
+import { PLAYLIST_FORMATS, PlaylistFormat, serializePlaylist, parsePlaylist } from '../utils/playlistFormats';
+import { downloadBlob, toSafeFileName } from '../utils/download';
+import { resolvePlaylistEntries, buildImportPreview, mergeImport, ImportItem } from '../services/playlistImport';
+import { isAbortError } from '../services/apiErrors';
+import { ALL_FAVORITES } from './CollectionsSection';
+import { ICONS } from '../constants';
+
+interface PlaylistTransferPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  favorites: Station[];
+  collections: FavoriteCollection[];
+  /** Applies a reviewed import; `collectionName` asks for the imported stations to be grouped into a new collection. */
+  onImport: (result: ReturnType<typeof mergeImport>, collectionName: string | null) => void;
+}
+
+type ImportState =
+  | { step: 'idle' }
+  | { step: 'resolving'; fileName: string; done: number; total: number }
+  | { step: 'preview'; fileName: string; items: ImportItem[] }
+  | { step: 'error'; message: string };
+
+const STATUS_STYLES: Record<ImportItem['status'], string> = {
+  new: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400',
+  duplicate: 'bg-slate-800 border-white/5 text-slate-500',
+  conflict: 'bg-amber-500/10 border-amber-500/20 text-amber-400',
+};
+
+const SOURCE_LABELS: Record<ImportItem['source'], string> = {
+  directory: 'Matched in directory',
+  file: 'From file',
+  custom: 'Custom stream',
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const PlaylistTransferPanel: React.FC<PlaylistTransferPanelProps> = ({ isOpen, onClose, favorites, collections, onImport }) => {
+  const [exportSource, setExportSource] = useState(ALL_FAVORITES);
+  const [importState, setImportState] = useState<ImportState>({ step: 'idle' });
+  const [replace, setReplace] = useState<Set<number>>(new Set());
+  const [groupIntoCollection, setGroupIntoCollection] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the panel abandons an import in progress
+  useEffect(() => {
+    if (isOpen) return;
+    abortRef.current?.abort();
+    setImportState({ step: 'idle' });
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const sourceCollection = collections.find(c => c.id === exportSource);
+  const exportName = sourceCollection?.name ?? 'VoxWorld Favorites';
+  const exportStations = sourceCollection
+    ? sourceCollection.stationIds.map(id => favorites.find(s => s.stationuuid === id)).filter((s): s is Station => Boolean(s))
+    : favorites;
+
+  const handleExport = (format: PlaylistFormat) => {
+    const meta = PLAYLIST_FORMATS.find(f => f.id === format)!;
+    const fileName = `${toSafeFileName(exportName)}.${meta.extension}`;
+    downloadBlob(new Blob([serializePlaylist(format, exportStations, exportName)], { type: `${meta.mime};charset=utf-8` }), fileName);
+  };
+
+  const handleFile = async (file: File) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const entries = parsePlaylist(await file.text(), file.name);
+      if (entries.length === 0) throw new Error('No playable streams were found in this file.');
+      setImportState({ step: 'resolving', fileName: file.name, done: 0, total: entries.length });
+      const resolved = await resolvePlaylistEntries(entries, {
+        signal: controller.signal,
+        onProgress: (done, total) => { if (!controller.signal.aborted) setImportState({ step: 'resolving', fileName: file.name, done, total }); }
+      });
+      if (controller.signal.aborted) return;
+      setReplace(new Set());
+      setImportState({ step: 'preview', fileName: file.name, items: buildImportPreview(resolved, favorites) });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Playlist import failed", err);
+      setImportState({ step: 'error', message: err instanceof Error ? err.message : 'The file could not be imported.' });
+    }
+  };
+
+  const handleMerge = () => {
+    if (importState.step !== 'preview') return;
+    onImport(mergeImport(favorites, importState.items, replace), groupIntoCollection ? baseName(importState.fileName) : null);
+    setImportState({ step: 'idle' });
+    onClose();
+  };
+
+  const toggleReplace = (index: number) => {
+    setReplace(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const counts = importState.step === 'preview'
+    ? importState.items.reduce((acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }), { new: 0, duplicate: 0, conflict: 0 })
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] flex flex-col glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <div className="text-yellow-400"><ICONS.ListPlus /></div>
+            <h2 className="font-outfit font-semibold text-white text-lg">Import & Export</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-3">Export</h3>
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <select
+              value={exportSource}
+              onChange={(e) => setExportSource(e.target.value)}
+              className="bg-slate-900 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-300 focus:outline-none focus:ring-2 focus:ring-sky-500/30"
+            >
+              <option value={ALL_FAVORITES}>All favorites ({favorites.length})</option>
+              {collections.map(c => <option key={c.id} value={c.id}>{c.name} ({c.stationIds.length})</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {PLAYLIST_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => handleExport(format.id)}
+                disabled={exportStations.length === 0}
+                className="px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-sky-400 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500 mt-2">Only VoxWorld JSON keeps every station detail; the other formats carry stream URLs and names for players like VLC.</p>
+        </section>
+
+        <section className="mt-6 pt-6 border-t border-white/5 flex flex-col min-h-0">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Import</h3>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importState.step === 'resolving'}
+              className="text-[10px] font-bold uppercase tracking-widest text-sky-500 hover:text-sky-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              Choose File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".m3u,.m3u8,.pls,.xspf,.json"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); e.target.value = ''; }}
+            />
+          </div>
+
+          {importState.step === 'idle' && (
+            <p className="text-[11px] text-slate-500">M3U, PLS, XSPF and VoxWorld JSON files are supported. Streams are matched to directory stations by URL; the rest are kept as custom stations.</p>
+          )}
+          {importState.step === 'error' && (
+            <p className="text-[11px] text-rose-400">{importState.message}</p>
+          )}
+          {importState.step === 'resolving' && (
+            <div className="flex items-center gap-3 text-[11px] text-slate-400">
+              <div className="w-4 h-4 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+              Matching {importState.fileName}: {importState.done} / {importState.total}
+            </div>
+          )}
+          {importState.step === 'preview' && counts && (
+            <>
+              <div className="text-[11px] text-slate-400 mb-3">
+                <span className="text-emerald-400 font-bold">{counts.new} new</span> · <span className="font-bold">{counts.duplicate} already saved</span> · <span className="text-amber-400 font-bold">{counts.conflict} conflicts</span>
+              </div>
+              <div className="flex flex-col gap-1.5 overflow-y-auto custom-scrollbar min-h-0 max-h-72 pr-1">
+                {importState.items.map((item, index) => (
+                  <div key={`${item.station.stationuuid}-${index}`} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-slate-900/50 border border-white/5">
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full border text-[9px] font-bold uppercase tracking-wider ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs text-slate-200 truncate">{item.station.name}</div>
+                      <div className="text-[10px] text-slate-500 truncate">
+                        {SOURCE_LABELS[item.source]}
+                        {item.status === 'conflict' && item.existing && ` · saved as "${item.existing.name}"`}
+                      </div>
+                    </div>
+                    {item.status === 'conflict' && (
+                      <button
+                        onClick={() => toggleReplace(index)}
+                        className={`shrink-0 text-[9px] font-bold uppercase tracking-widest transition-colors ${replace.has(index) ? 'text-amber-400' : 'text-slate-500 hover:text-slate-300'}`}
+                        title="Choose which version to keep"
+                      >
+                        {replace.has(index) ? 'Use imported' : 'Keep saved'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+                <label className="flex items-center gap-2 text-[11px] text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={groupIntoCollection} onChange={(e) => setGroupIntoCollection(e.target.checked)} className="accent-yellow-400" />
+                  Also create collection "{baseName(importState.fileName)}"
+                </label>
+                <div className="flex gap-2">
+                  <button onClick={() => setImportState({ step: 'idle' })} className="px-4 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-white transition-colors">Cancel</button>
+                  <button
+                    onClick={handleMerge}
+                    disabled={counts.new === 0 && replace.size === 0 && !groupIntoCollection}
+                    className="px-4 py-2 rounded-xl bg-sky-500 hover:bg-sky-400 disabled:opacity-40 disabled:cursor-not-allowed text-white text-[10px] font-bold uppercase tracking-widest shadow-lg shadow-sky-500/20 transition-all"
+                  >
+                    Merge
+                  </button>
+                </div>
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistTransferPanel;
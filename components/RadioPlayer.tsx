@@ -1,53 +1,125 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Station } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Station, VolumeEnvelope } from '../types';
 import { ICONS } from '../constants';
+import { SleepTimer } from '../hooks/useSleepTimer';
+import { Alarm } from '../hooks/useAlarm';
+import { useNowPlaying } from '../hooks/useNowPlaying';
+import { usePlaybackPipeline, AudioDecks, SwitchFailure } from '../hooks/usePlaybackPipeline';
+import { useRecorder, isRecordingSupported } from '../hooks/useRecorder';
+import { useAudioProcessing } from '../hooks/useAudioProcessing';
+import { useMediaSession } from '../hooks/useMediaSession';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { readId3StreamTitle } from '../utils/streamMetadata';
+import { getStrategy } from '../utils/playbackStrategies';
+import SleepAlarmMenu from './SleepAlarmMenu';
+import RecentTracksMenu from './RecentTracksMenu';
+import PlaybackDiagnosticsPanel from './PlaybackDiagnosticsPanel';
+import RecordMenu from './RecordMenu';
+import AudioProcessingPanel from './AudioProcessingPanel';
 import Hls from 'hls.js';
 
+export interface PlayerPlaylist {
+  name: string;
+  /** Index of the current station in the playlist, -1 when it isn't part of it. */
+  position: number;
+  length: number;
+  onNext: () => void;
+  onPrevious: () => void;
+}
+
 interface RadioPlayerProps {
   station: Station | null;
   isPlaying: boolean;
   onTogglePlay: () => void;
+  /** App link that reopens VoxWorld on this station. */
+  shareUrl: string;
+  playlist?: PlayerPlaylist;
+  /** Moves through the running playlist, or the station list when there is none; used by media keys. */
+  onSkip?: (delta: 1 | -1) => void;
+  /** Fade-out or ramp-up layered over the volume slider. */
+  volumeEnvelope?: VolumeEnvelope | null;
+  /** Called once the stream has given up after all retries. */
+  onPlaybackError?: () => void;
+  /** Reports whether the station can actually be heard: connected, playing and not failed. */
+  onAudibleChange?: (audible: boolean) => void;
+  /** Seconds the next station fades in over; 0 switches straight away. */
+  crossfadeSeconds?: number;
+  /** Called with the station still playing after switching to another one failed. */
+  onSwitchFailed?: (kept: Station) => void;
+  /** Opens "More like this" for the current station. */
+  onShowSimilar?: () => void;
+  sleepTimer: SleepTimer;
+  alarm: Alarm;
+  alarmStations: Station[];
 }
 
-const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onTogglePlay }) => {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+const ENVELOPE_STEP_MS = 200;
+// HLS metadata is parsed ahead of playback; titles further out than this are shown straight away
+const MAX_METADATA_DELAY_MS = 60_000;
+const SWITCH_FAILURE_NOTICE_MS = 8_000;
+const VOLUME_STEP = 0.05;
+
+const envelopeGain = ({ startsAt, endsAt, from, to }: VolumeEnvelope, now: number) => {
+  const progress = Math.min(1, Math.max(0, (now - startsAt) / Math.max(1, endsAt - startsAt)));
+  return from + (to - from) * progress;
+};
+
+const RadioPlayer: React.FC<RadioPlayerProps> = ({
+  station, isPlaying, onTogglePlay, shareUrl, playlist, onSkip, volumeEnvelope, onPlaybackError, onAudibleChange, crossfadeSeconds = 0, onSwitchFailed, onShowSimilar, sleepTimer, alarm, alarmStations
+}) => {
+  // Two elements, so the next station can buffer while the current one plays
+  const deckARef = useRef<HTMLAudioElement | null>(null);
+  const deckBRef = useRef<HTMLAudioElement | null>(null);
+  const decks = useMemo<AudioDecks>(() => [deckARef, deckBRef], []);
+  // Their counterparts outside the audio graph, for streams that only play without CORS
+  const plainDeckARef = useRef<HTMLAudioElement | null>(null);
+  const plainDeckBRef = useRef<HTMLAudioElement | null>(null);
+  const plainDecks = useMemo<AudioDecks>(() => [plainDeckARef, plainDeckBRef], []);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const hlsRef = useRef<Hls | null>(null);
-  const playPromiseRef = useRef<Promise<void> | null>(null);
   const audioCtxRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const sourcesRef = useRef<MediaElementAudioSourceNode[]>([]);
   const animationRef = useRef<number | null>(null);
+  const metadataTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
 
   const [volume, setVolume] = useState(0.8);
-  const [error, setError] = useState<{ message: string; type: 'NETWORK' | 'DECODE' | 'ACCESS' | 'OFFLINE' | 'UNKNOWN' } | null>(null);
   const [isBuffering, setIsBuffering] = useState(false);
   const [isCorsBlocked, setIsCorsBlocked] = useState(false);
   const [amplitude, setAmplitude] = useState(0); // For UI-based audio reactivity
   const [shareCopied, setShareCopied] = useState(false);
-  
-  const [retryStage, setRetryStage] = useState(0); 
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isSoundOpen, setIsSoundOpen] = useState(false);
+  const [shownSwitchFailure, setShownSwitchFailure] = useState<SwitchFailure | null>(null);
 
   const isHlsStream = station?.url.includes('.m3u8') || station?.url_resolved?.includes('.m3u8');
 
-  const getUrlForStage = useCallback((s: Station, stage: number) => {
-    let url = (stage === 0 || stage === 1 || stage === 3) ? (s.url_resolved || s.url) : s.url;
-    if (stage <= 1 && url.startsWith('http://') && window.location.protocol === 'https:') {
-      url = url.replace('http://', 'https://');
-    }
-    if (stage === 5) {
-      if (!url.endsWith(';') && !url.includes('?')) {
-        url = url.endsWith('/') ? `${url};` : `${url}/;`;
-      }
-      const sep = url.includes('?') ? '&' : '?';
-      url = `${url}${sep}cb=${Date.now()}`;
-    }
-    return url;
+  const reportTitleRef = useRef<(raw: string) => void>(() => {});
+  // Timed ID3 tags announce songs; hold each one until playback reaches it
+  const watchHlsMetadata = useCallback((hls: Hls) => {
+    hls.on(Hls.Events.FRAG_PARSING_METADATA, (_event, data) => {
+      data.samples.forEach(sample => {
+        const raw = readId3StreamTitle(sample.data);
+        if (!raw) return;
+        const delay = Math.min(MAX_METADATA_DELAY_MS, Math.max(0, (sample.pts - (hls.media?.currentTime ?? 0)) * 1000));
+        metadataTimersRef.current.push(setTimeout(() => reportTitleRef.current(raw), delay));
+      });
+    });
   }, []);
 
+  const {
+    error, diagnostics, isConnecting, rememberedStrategy, activeDeck, activePlain, switchFailure, setLevel, retry, forgetStrategy
+  } = usePlaybackPipeline(decks, station, isPlaying, { crossfadeMs: crossfadeSeconds * 1000, configureHls: watchHlsMetadata, onSwitchFailed, plainDecks });
+  const activeStrategy = diagnostics?.status === 'playing' && diagnostics.strategy ? getStrategy(diagnostics.strategy) : undefined;
+
+  const { track, recentTracks, reportTitle } = useNowPlaying(station, isPlaying && !error);
+  // Not while the next station is still buffering behind the current one, or it would be measured as that one
+  const audioProcessing = useAudioProcessing(station, isPlaying && !error && !isCorsBlocked && !isConnecting);
+  const connectProcessing = audioProcessing.connect;
+  reportTitleRef.current = reportTitle;
+
   const handleShare = async () => {
     if (!station) return;
-    const url = station.url_resolved || station.url;
+    const url = shareUrl;
     const shareData = {
       title: `VoxWorld: ${station.name}`,
       text: `Listen to ${station.name} from ${station.country} on VoxWorld!`,
@@ -70,7 +142,7 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
   };
 
   useEffect(() => {
-    if (!audioRef.current || !canvasRef.current) return;
+    if (!canvasRef.current) return;
 
     const initAudioContext = () => {
       try {
@@ -81,9 +153,11 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
           analyser.fftSize = 256;
           analyser.smoothingTimeConstant = 0.85;
           
-          if (!sourceRef.current) {
-            sourceRef.current = ctx.createMediaElementSource(audioRef.current!);
-            sourceRef.current.connect(analyser);
+          if (sourcesRef.current.length === 0) {
+            // Both decks feed the same chain, so a crossfade is processed and drawn as one signal.
+            // The plain decks stay out of it: the graph would mute the streams they carry
+            sourcesRef.current = decks.map(deck => ctx.createMediaElementSource(deck.current!));
+            sourcesRef.current.forEach(source => connectProcessing(ctx, source).connect(analyser));
             analyser.connect(ctx.destination);
           }
           
@@ -193,106 +267,115 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
     return () => { if (animationRef.current) cancelAnimationFrame(animationRef.current); };
   }, [isPlaying, error, isCorsBlocked]);
 
-  useEffect(() => { if (audioRef.current) audioRef.current.volume = volume; }, [volume]);
-
-  const safePlay = useCallback(async () => {
-    const audio = audioRef.current;
-    if (!audio || !isPlaying || error) return;
-    try {
-      playPromiseRef.current = audio.play();
-      await playPromiseRef.current;
-      setError(null);
-    } catch (err: any) {
-      if (err.name !== 'AbortError') throw err;
-    }
-  }, [isPlaying, error]);
+  // The envelope scales the slider value rather than moving it, so the user's level comes back afterwards
+  useEffect(() => {
+    const apply = () => setLevel(volume * (volumeEnvelope ? envelopeGain(volumeEnvelope, Date.now()) : 1));
+    apply();
+    if (!volumeEnvelope) return;
+    const interval = setInterval(() => {
+      apply();
+      if (Date.now() > volumeEnvelope.endsAt) clearInterval(interval);
+    }, ENVELOPE_STEP_MS);
+    return () => clearInterval(interval);
+  }, [volume, volumeEnvelope, setLevel]);
+
+  const onPlaybackErrorRef = useRef(onPlaybackError);
+  onPlaybackErrorRef.current = onPlaybackError;
+  useEffect(() => { if (error) onPlaybackErrorRef.current?.(); }, [error]);
+
+  const isAudible = isPlaying && !error && diagnostics?.status === 'playing';
+  const onAudibleChangeRef = useRef(onAudibleChange);
+  onAudibleChangeRef.current = onAudibleChange;
+  useEffect(() => { onAudibleChangeRef.current?.(isAudible); }, [isAudible]);
 
   const handleManualRetry = () => {
-    setRetryStage(0);
-    setError(null);
-    setIsBuffering(true);
+    retry();
     if (!isPlaying) onTogglePlay();
   };
 
+  // Titles queued for the previous station must not show up on the next one
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !station) return;
-
-    if (hlsRef.current) {
-      hlsRef.current.destroy();
-      hlsRef.current = null;
-    }
-
-    audio.pause();
-    setIsBuffering(true); // Signal buffering start on source change
-    if (retryStage >= 3) audio.removeAttribute('crossOrigin');
-    else audio.crossOrigin = "anonymous";
+    metadataTimersRef.current.forEach(clearTimeout);
+    metadataTimersRef.current = [];
+  }, [station?.stationuuid]);
 
-    audio.src = '';
-    const streamUrl = getUrlForStage(station, retryStage);
+  useEffect(() => () => metadataTimersRef.current.forEach(clearTimeout), []);
 
-    if (streamUrl.includes('.m3u8') && Hls.isSupported() && retryStage === 0) {
-      const hls = new Hls({
-        enableWorker: true,
-        xhrSetup: (xhr) => { if (retryStage < 3) xhr.withCredentials = false; }
-      });
-      hls.loadSource(streamUrl);
-      hls.attachMedia(audio);
-      hls.on(Hls.Events.MANIFEST_PARSED, () => { if (isPlaying) safePlay(); });
-      hls.on(Hls.Events.ERROR, (_event, data) => { if (data.fatal) setRetryStage(prev => prev + 1); });
-      hlsRef.current = hls;
-    } else {
-      audio.src = streamUrl;
-      audio.load();
-      if (isPlaying) {
-        safePlay().catch(() => setRetryStage(prev => prev + 1));
-      }
-    }
-  }, [station, retryStage, isPlaying, getUrlForStage, safePlay]);
+  // Strategies that drop CORS leave the analyser silent; draw the simulated wave instead
+  useEffect(() => {
+    if (activeStrategy) setIsCorsBlocked(!activeStrategy.cors);
+  }, [activeStrategy]);
 
+  // The audio elements only exist once there is a station to render; only the deck being heard counts
+  const hasStation = station !== null;
   useEffect(() => {
-    const audio = audioRef.current;
+    const audio = (activePlain ? plainDecks : decks)[activeDeck].current;
     if (!audio) return;
-    const handlePlaybackError = () => {
-      if (retryStage >= 5) {
-        setIsBuffering(false);
-        const mediaError = audio.error;
-        let type: 'NETWORK' | 'DECODE' | 'ACCESS' | 'OFFLINE' | 'UNKNOWN' = 'UNKNOWN';
-        let displayMsg = "This frequency is unreachable.";
-        if (window.location.protocol === 'https:' && audio.src.startsWith('http://')) {
-          displayMsg = "Security Block: Insecure stream.";
-          type = 'ACCESS';
-        } else if (mediaError) {
-          if (mediaError.code === 2) { displayMsg = "Network error: Connection failed."; type = 'NETWORK'; }
-          else if (mediaError.code === 3) { displayMsg = "Format unsupported."; type = 'DECODE'; }
-          else { displayMsg = "Station offline or format incompatible."; type = 'OFFLINE'; }
-        }
-        setError({ message: displayMsg, type });
-      } else {
-        setRetryStage(prev => prev + 1);
-      }
-    };
-    const handleCanPlay = () => { setIsBuffering(false); setError(null); };
+    const handlePlaying = () => setIsBuffering(false);
     const handleWaiting = () => setIsBuffering(true);
-    audio.addEventListener('error', handlePlaybackError);
-    audio.addEventListener('canplay', handleCanPlay);
+    audio.addEventListener('playing', handlePlaying);
+    audio.addEventListener('canplay', handlePlaying);
     audio.addEventListener('waiting', handleWaiting);
     audio.addEventListener('stalled', handleWaiting);
     return () => {
-      audio.removeEventListener('error', handlePlaybackError);
-      audio.removeEventListener('canplay', handleCanPlay);
+      audio.removeEventListener('playing', handlePlaying);
+      audio.removeEventListener('canplay', handlePlaying);
       audio.removeEventListener('waiting', handleWaiting);
       audio.removeEventListener('stalled', handleWaiting);
     };
-  }, [retryStage]);
+  }, [hasStation, decks, plainDecks, activeDeck, activePlain]);
 
-  useEffect(() => { setRetryStage(0); setError(null); }, [station?.stationuuid]);
+  useEffect(() => {
+    if (!switchFailure) return;
+    setShownSwitchFailure(switchFailure);
+    const timeout = setTimeout(() => setShownSwitchFailure(null), SWITCH_FAILURE_NOTICE_MS);
+    return () => clearTimeout(timeout);
+  }, [switchFailure]);
+
+  const showBuffering = isPlaying && (isConnecting || isBuffering);
+
+  useMediaSession({ station, track, isPlaying, onTogglePlay, onSkip });
+  // Without a station the arrows are left to scroll the page
+  useKeyboardShortcuts(station ? {
+    volumeUp: () => setVolume(v => Math.min(1, Math.round((v + VOLUME_STEP) * 100) / 100)),
+    volumeDown: () => setVolume(v => Math.max(0, Math.round((v - VOLUME_STEP) * 100) / 100)),
+  } : {});
+
+  // A tainted element still plays, but the graph only hands silence to scripts, the recorder included
+  const isLive = isPlaying && !error && activeStrategy !== undefined;
+  const recordBlockedReason = !isRecordingSupported()
+    ? 'This browser can\'t record audio.'
+    : !isLive
+      ? 'Start the station to record it.'
+      : isCorsBlocked
+        ? 'This station doesn\'t allow cross-origin access, so the browser treats its audio as CORS-tainted: you can hear it, but the recorder only receives silence. Streams played through the stream relay (see the README) can be recorded.'
+        : null;
+  // Tapped after the analyser, so recordings sound like what is heard
+  const recorder = useRecorder(audioCtxRef, analyserRef, station, recordBlockedReason === null);
 
   if (!station) return null;
 
   return (
     <div className="fixed bottom-0 left-0 right-0 h-24 glass border-t border-white/5 z-50 flex items-center px-4 md:px-8 shadow-[0_-15px_50px_rgba(0,0,0,0.6)]">
-      <audio ref={audioRef} />
+      <audio ref={deckARef} />
+      <audio ref={deckBRef} />
+      <audio ref={plainDeckARef} />
+      <audio ref={plainDeckBRef} />
+      <PlaybackDiagnosticsPanel
+        isOpen={isDiagnosticsOpen}
+        onClose={() => setIsDiagnosticsOpen(false)}
+        diagnostics={diagnostics}
+        rememberedStrategy={rememberedStrategy}
+        onRetry={handleManualRetry}
+        onForgetStrategy={forgetStrategy}
+      />
+      <AudioProcessingPanel
+        isOpen={isSoundOpen}
+        onClose={() => setIsSoundOpen(false)}
+        processing={audioProcessing}
+        stationName={station.name}
+        isCorsBlocked={isCorsBlocked && isPlaying && !error}
+      />
       
       <div className="flex items-center gap-4 w-full max-w-7xl mx-auto">
         {/* Station Identity */}
@@ -307,7 +390,7 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
             {station.favicon ? (
               <img src={station.favicon} alt="" className="w-full h-full object-contain p-1" onError={(e) => (e.currentTarget.style.display = 'none')}/>
             ) : ( <ICONS.Radio /> )}
-            {isBuffering && !error && (
+            {showBuffering && !error && (
               <div className="absolute inset-0 bg-black/60 flex items-center justify-center">
                 <div className="w-5 h-5 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
               </div>
@@ -317,16 +400,32 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
             <h3 className="font-bold text-white truncate text-sm leading-tight">{station.name}</h3>
             {error ? (
               <div className="flex flex-col gap-0.5 mt-0.5">
-                <span className="text-[8px] font-bold text-rose-400 uppercase tracking-wider">{error.type === 'ACCESS' ? 'SECURITY BLOCK' : 'SIGNAL LOST'}</span>
+                <span className="text-[8px] font-bold text-rose-400 uppercase tracking-wider">{error.type === 'ACCESS' ? 'BLOCKED' : 'SIGNAL LOST'}</span>
                 <span className="text-[9px] text-slate-500 truncate">{error.message}</span>
               </div>
             ) : (
               <div className="flex flex-col gap-0.5 mt-0.5">
+                {track && (
+                  <p className="text-[11px] text-sky-200 truncate animate-in fade-in duration-500" title={track.raw}>
+                    {track.artist ? <><span className="font-semibold">{track.title}</span><span className="text-slate-400"> · {track.artist}</span></> : track.title}
+                  </p>
+                )}
                 <div className="flex items-center gap-2">
                   <p className="text-[10px] text-slate-500 truncate">{station.country}</p>
                   <span className="w-1 h-1 rounded-full bg-slate-800"></span>
                   <p className="text-[10px] text-sky-400 font-bold uppercase tracking-tighter opacity-80">{station.codec}</p>
+                  {activeStrategy?.id === 'relay' && (
+                    <span className="text-[8px] text-emerald-400/80 font-bold uppercase tracking-wider" title="Played through the local relay because the station blocks direct access">Relayed</span>
+                  )}
                 </div>
+                {shownSwitchFailure && (
+                  <div className="flex items-center gap-1 animate-in fade-in duration-500">
+                    <span className="w-1 h-1 rounded-full bg-rose-500"></span>
+                    <p className="text-[8px] text-rose-300/90 font-medium truncate" title={shownSwitchFailure.error.message}>
+                      Couldn't tune to {shownSwitchFailure.stationName}. Kept this station playing.
+                    </p>
+                  </div>
+                )}
                 {isCorsBlocked && isHlsStream && isPlaying && (
                   <div className="flex items-center gap-1 animate-in fade-in duration-500">
                     <span className="w-1 h-1 rounded-full bg-amber-500 animate-pulse"></span>
@@ -342,21 +441,38 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
 
         {/* Playback Controls & Visualizer */}
         <div className="flex-1 flex flex-col items-center gap-1.5">
-          <button 
-            onClick={onTogglePlay}
-            className={`w-11 h-11 rounded-full flex items-center justify-center hover:scale-110 active:scale-95 transition-all shadow-xl relative z-10 ${
-              error ? 'bg-slate-800 text-slate-600' : 
-              isBuffering ? 'bg-sky-50 text-sky-500 animate-pulse' : 
-              'bg-white text-black hover:bg-sky-50'
-            }`}
-            style={{
-              boxShadow: isPlaying && !error && !isBuffering ? `0 0 ${amplitude * 40}px rgba(14, 165, 233, ${amplitude * 0.6})` : 
-                         isBuffering ? `0 0 25px rgba(14, 165, 233, 0.5)` :
-                         '0 10px 20px rgba(0,0,0,0.3)'
-            }}
-          >
-            {isPlaying && !error ? <ICONS.Pause /> : <ICONS.Play />}
-          </button>
+          <div className="flex items-center gap-4">
+            {playlist && (
+              <button onClick={playlist.onPrevious} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-colors" title={`Previous in ${playlist.name}`}>
+                <ICONS.SkipBack />
+              </button>
+            )}
+            <button 
+              onClick={onTogglePlay}
+              className={`w-11 h-11 rounded-full flex items-center justify-center hover:scale-110 active:scale-95 transition-all shadow-xl relative z-10 ${
+                error ? 'bg-slate-800 text-slate-600' : 
+                showBuffering ? 'bg-sky-50 text-sky-500 animate-pulse' : 
+                'bg-white text-black hover:bg-sky-50'
+              }`}
+              style={{
+                boxShadow: isPlaying && !error && !showBuffering ? `0 0 ${amplitude * 40}px rgba(14, 165, 233, ${amplitude * 0.6})` : 
+                           showBuffering ? `0 0 25px rgba(14, 165, 233, 0.5)` :
+                           '0 10px 20px rgba(0,0,0,0.3)'
+              }}
+            >
+              {isPlaying && !error ? <ICONS.Pause /> : <ICONS.Play />}
+            </button>
+            {playlist && (
+              <button onClick={playlist.onNext} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5 transition-colors" title={`Next in ${playlist.name}`}>
+                <ICONS.SkipForward />
+              </button>
+            )}
+          </div>
+          {playlist && (
+            <span className="text-[8px] text-yellow-300/80 font-bold uppercase tracking-[0.2em] truncate max-w-[240px]">
+              {playlist.name}{playlist.position >= 0 && ` · ${playlist.position + 1}/${playlist.length}`}
+            </span>
+          )}
           
           <div className="w-full max-w-[320px] h-6 relative hidden md:block group">
             <div className={`absolute inset-0 bg-sky-500/5 rounded-full blur-xl transition-opacity duration-700 ${isPlaying && !error ? 'opacity-100' : 'opacity-0'}`}></div>
@@ -365,6 +481,7 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
             {error && (
               <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-900/95 rounded-lg text-[9px] text-rose-400 font-bold px-2 text-center border border-rose-500/20 backdrop-blur-sm">
                 CONNECTION FAILED • <button onClick={handleManualRetry} className="underline ml-1.5 hover:text-white transition-colors">TUNER RESET</button>
+                <button onClick={() => setIsDiagnosticsOpen(true)} className="underline ml-1.5 hover:text-white transition-colors">DETAILS</button>
               </div>
             )}
             
@@ -386,6 +503,32 @@ const RadioPlayer: React.FC<RadioPlayerProps> = ({ station, isPlaying, onToggleP
 
         {/* Volume & Utility */}
         <div className="hidden md:flex items-center justify-end gap-4 w-1/3">
+          <button
+            onClick={() => setIsDiagnosticsOpen(true)}
+            className="p-2.5 rounded-full transition-all bg-slate-900/50 text-slate-400 hover:text-sky-400 border border-white/5 hover:border-sky-500/20"
+            title="Playback diagnostics"
+          >
+            <ICONS.Activity />
+          </button>
+          <button
+            onClick={() => setIsSoundOpen(true)}
+            className={`p-2.5 rounded-full transition-all border ${audioProcessing.settings.bypass ? 'bg-slate-900/50 text-slate-400 hover:text-sky-400 border-white/5 hover:border-sky-500/20' : 'bg-sky-500/10 text-sky-300 border-sky-500/20 hover:border-sky-500/40'}`}
+            title={audioProcessing.settings.bypass ? 'Sound (bypassed)' : 'Sound'}
+          >
+            <ICONS.Sliders />
+          </button>
+          {onShowSimilar && (
+            <button
+              onClick={onShowSimilar}
+              className="p-2.5 rounded-full transition-all bg-slate-900/50 text-slate-400 hover:text-sky-400 border border-white/5 hover:border-sky-500/20"
+              title="More like this"
+            >
+              <ICONS.Compass />
+            </button>
+          )}
+          <RecordMenu recorder={recorder} blockedReason={recordBlockedReason} />
+          <RecentTracksMenu stationName={station.name} tracks={recentTracks} />
+          <SleepAlarmMenu sleepTimer={sleepTimer} alarm={alarm} alarmStations={alarmStations} />
           <button 
             onClick={handleShare}
             className={`p-2.5 rounded-full transition-all relative group/share ${
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { TrackPlay } from '../types';
+import { ICONS } from '../constants';
+
+interface RecentTracksMenuProps {
+  stationName: string;
+  tracks: TrackPlay[];
+}
+
+const formatTime = (at: number) => {
+  const date = new Date(at);
+  const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? time : `${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+const RecentTracksMenu: React.FC<RecentTracksMenuProps> = ({ stationName, tracks }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2.5 rounded-full transition-all bg-slate-900/50 text-slate-400 hover:text-sky-400 border border-white/5 hover:border-sky-500/20"
+        title="Recent tracks"
+      >
+        <ICONS.Music />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute bottom-14 right-0 z-50 w-80 glass rounded-2xl border border-white/10 shadow-2xl p-4 animate-in fade-in slide-in-from-bottom-2 duration-150">
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Recently on air</h4>
+            <p className="text-[10px] text-slate-600 truncate mb-3">{stationName}</p>
+            {tracks.length === 0 ? (
+              <p className="text-[11px] text-slate-500 leading-relaxed">
+                No track titles yet. Not every station announces them, and they need the local metadata proxy that runs with the dev server.
+              </p>
+            ) : (
+              <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto pr-1">
+                {tracks.map(track => (
+                  <li key={`${track.at}-${track.raw}`} className="flex items-start gap-3">
+                    <span className="text-[9px] text-slate-600 tabular-nums pt-0.5 w-14 shrink-0">{formatTime(track.at)}</span>
+                    <div className="min-w-0">
+                      <p className="text-[11px] text-white font-semibold truncate">{track.title}</p>
+                      {track.artist && <p className="text-[10px] text-slate-400 truncate">{track.artist}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecentTracksMenu;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Recorder, formatClock } from '../hooks/useRecorder';
+import { formatFileSize } from '../utils/download';
+import { ICONS } from '../constants';
+import RecordingsPanel from './RecordingsPanel';
+
+interface RecordMenuProps {
+  recorder: Recorder;
+  /** Why the current stream can't be recorded; null when it can. */
+  blockedReason: string | null;
+}
+
+const RecordMenu: React.FC<RecordMenuProps> = ({ recorder, blockedReason }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const isRecording = recorder.status === 'recording';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1.5 p-2.5 rounded-full transition-all border ${isRecording ? 'bg-rose-500/15 border-rose-500/30 text-rose-300' : 'bg-slate-900/50 text-slate-400 hover:text-sky-400 border-white/5 hover:border-sky-500/20'}`}
+        title={isRecording ? 'Recording' : 'Record'}
+      >
+        <span className={isRecording ? 'animate-pulse' : ''}><ICONS.Record /></span>
+        {isRecording && (
+          <span className="text-[10px] font-bold tabular-nums pr-1">{formatClock(recorder.elapsedMs)} · {formatFileSize(recorder.sizeBytes)}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute bottom-14 right-0 z-50 w-72 glass rounded-2xl border border-white/10 shadow-2xl p-4 animate-in fade-in slide-in-from-bottom-2 duration-150">
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-2">Record</h4>
+            {isRecording ? (
+              <>
+                <p className="text-[11px] text-rose-300 mb-3 tabular-nums">Recording for {formatClock(recorder.elapsedMs)} · {formatFileSize(recorder.sizeBytes)}</p>
+                <button onClick={recorder.stop} className="w-full py-2 rounded-xl bg-rose-500/20 border border-rose-500/30 text-[11px] font-bold uppercase tracking-widest text-rose-200 hover:bg-rose-500/30 transition-all">
+                  Stop & save
+                </button>
+              </>
+            ) : blockedReason ? (
+              <p className="text-[11px] text-amber-300/90 leading-relaxed">{blockedReason}</p>
+            ) : (
+              <button
+                onClick={recorder.start}
+                disabled={recorder.status === 'saving'}
+                className="w-full py-2 rounded-xl bg-white/5 border border-white/5 text-[11px] font-bold uppercase tracking-widest text-slate-300 hover:bg-rose-500/20 hover:text-white transition-all disabled:opacity-40"
+              >
+                {recorder.status === 'saving' ? 'Saving…' : 'Start recording'}
+              </button>
+            )}
+            {recorder.error && <p className="text-[11px] text-rose-300 mt-2 leading-relaxed">{recorder.error}</p>}
+            <button
+              onClick={() => { setIsLibraryOpen(true); setIsOpen(false); }}
+              className="mt-3 w-full text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-sky-400 transition-colors"
+            >
+              Open recordings
+            </button>
+          </div>
+        </>
+      )}
+
+      <RecordingsPanel isOpen={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} />
+    </div>
+  );
+};
+
+export default RecordMenu;
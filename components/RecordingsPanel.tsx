@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Recording } from '../types';
+import { recordingStore } from '../services/recordingStore';
+import { downloadBlob, formatFileSize } from '../utils/download';
+import { formatClock } from '../hooks/useRecorder';
+import { ICONS } from '../constants';
+
+interface RecordingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Object URLs pin their blob in memory, so each row owns one only while the panel shows it
+const RecordingRow: React.FC<{ recording: Recording }> = ({ recording }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(recording.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [recording.blob]);
+
+  const remove = () => {
+    recordingStore.remove(recording.id).catch(err => console.error('Deleting the recording failed:', err));
+  };
+
+  return (
+    <li className="bg-slate-900/50 rounded-2xl border border-white/5 px-4 py-3">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="min-w-0 flex-1">
+          <p className="text-sm text-white font-semibold truncate">{recording.stationName}</p>
+          <p className="text-[10px] text-slate-500 truncate">
+            {new Date(recording.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · {formatClock(recording.durationMs)} · {formatFileSize(recording.sizeBytes)}
+          </p>
+        </div>
+        <button
+          onClick={() => downloadBlob(recording.blob, recording.fileName)}
+          className="p-2 rounded-full text-slate-400 hover:text-sky-400 hover:bg-white/5 transition-colors"
+          title={`Download ${recording.fileName}`}
+        >
+          <ICONS.Download />
+        </button>
+        {isConfirming ? (
+          <div className="flex items-center gap-1">
+            <button onClick={remove} className="px-2.5 py-1 rounded-lg bg-rose-500/20 text-rose-300 text-[10px] font-bold uppercase tracking-widest hover:bg-rose-500/30 transition-colors">Delete</button>
+            <button onClick={() => setIsConfirming(false)} className="px-2.5 py-1 rounded-lg text-slate-500 text-[10px] font-bold uppercase tracking-widest hover:text-white transition-colors">Keep</button>
+          </div>
+        ) : (
+          <button onClick={() => setIsConfirming(true)} className="p-2 rounded-full text-slate-400 hover:text-rose-400 hover:bg-white/5 transition-colors" title="Delete recording">
+            <ICONS.Trash />
+          </button>
+        )}
+      </div>
+      {url && <audio src={url} controls preload="metadata" className="w-full h-8" />}
+    </li>
+  );
+};
+
+const RecordingsPanel: React.FC<RecordingsPanelProps> = ({ isOpen, onClose }) => {
+  const [recordings, setRecordings] = useState<Recording[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const load = () => recordingStore.list()
+      .then(list => { if (!cancelled) { setRecordings(list); setLoadError(false); } })
+      .catch(err => { console.error('Loading recordings failed:', err); if (!cancelled) setLoadError(true); });
+    load();
+    const unsubscribe = recordingStore.subscribe(load);
+    return () => { cancelled = true; unsubscribe(); };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const totalBytes = recordings?.reduce((sum, r) => sum + r.sizeBytes, 0) ?? 0;
+
+  // Opened from inside the player bar, whose backdrop-filter would trap a fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[85vh] flex flex-col glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="min-w-0">
+            <h2 className="font-outfit font-semibold text-white text-lg">Recordings</h2>
+            <p className="text-[11px] text-slate-500">
+              {recordings?.length ? `${recordings.length} saved in this browser · ${formatFileSize(totalBytes)}` : 'Saved in this browser only'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        {loadError ? (
+          <p className="text-sm text-rose-300">Recordings could not be loaded. This browser may have storage disabled.</p>
+        ) : recordings === null ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : recordings.length === 0 ? (
+          <p className="text-sm text-slate-500 leading-relaxed">Nothing recorded yet. Press record in the player while a station is on to capture it.</p>
+        ) : (
+          <ul className="flex flex-col gap-3 overflow-y-auto pr-1">
+            {recordings.map(recording => <RecordingRow key={recording.id} recording={recording} />)}
+          </ul>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default RecordingsPanel;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Station } from '../types';
+import { radioService, Country, Tag } from '../services/radioService';
+import { isAbortError } from '../services/apiErrors';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { SearchParseError, getLastToken, replaceLastToken, formatTagToken, formatCountryToken, parseSearchQuery } from '../utils/searchQuery';
+import { ICONS } from '../constants';
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  countries: Country[];
+  errors: SearchParseError[];
+  onPickStation: (station: Station) => void;
+  /** Lets the page focus the field, e.g. from a keyboard shortcut. */
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+}
+
+type Suggestion =
+  | { kind: 'station'; id: string; label: string; detail: string; station: Station }
+  | { kind: 'tag'; id: string; label: string; detail: string; tag: string }
+  | { kind: 'country'; id: string; label: string; detail: string; name: string };
+
+const SUGGEST_DEBOUNCE_MS = 200;
+const MAX_STATIONS = 5;
+const MAX_TAGS = 5;
+const MAX_COUNTRIES = 4;
+
+const getFlagEmoji = (countryCode: string) => countryCode.toUpperCase().replace(/./g, char => String.fromCodePoint(char.charCodeAt(0) + 127397));
+
+const toTagSuggestion = (tag: Tag): Suggestion => ({
+  kind: 'tag', id: `tag-${tag.name}`, label: `#${tag.name}`, detail: `${tag.stationcount.toLocaleString()} stations`, tag: tag.name
+});
+
+const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, onSubmit, countries, errors, onPickStation, inputRef: externalInputRef }) => {
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [remoteSuggestions, setRemoteSuggestions] = useState<Suggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const ownInputRef = useRef<HTMLInputElement>(null);
+  const inputRef = externalInputRef ?? ownInputRef;
+
+  // Suggestions follow the token being typed; station names use all the free text of the query
+  const debouncedValue = useDebouncedValue(value, SUGGEST_DEBOUNCE_MS);
+  const term = getLastToken(debouncedValue);
+  const mode = term.startsWith('#') ? 'tag' : term.startsWith('@') ? 'country' : /^[a-z]+[:<>=]/i.test(term) ? 'filter' : 'any';
+  const needle = (mode === 'any' ? term : term.slice(1)).replace(/"/g, '').toLowerCase();
+  const stationName = useMemo(() => mode === 'any' ? parseSearchQuery(debouncedValue).name : '', [debouncedValue, mode]);
+
+  const countrySuggestions = useMemo<Suggestion[]>(() => {
+    if (mode === 'tag' || mode === 'filter' || !needle) return [];
+    return countries
+      .filter(c => c.name.toLowerCase().includes(needle) || c.iso_3166_1.toLowerCase() === needle)
+      .sort((a, b) => Number(b.name.toLowerCase().startsWith(needle)) - Number(a.name.toLowerCase().startsWith(needle)))
+      .slice(0, mode === 'country' ? MAX_COUNTRIES * 2 : MAX_COUNTRIES)
+      .map(c => ({
+        kind: 'country', id: `country-${c.iso_3166_1}`, label: c.name,
+        detail: `${getFlagEmoji(c.iso_3166_1)} ${c.stationcount.toLocaleString()} stations`, name: c.name
+      }));
+  }, [countries, mode, needle]);
+
+  // Remote lookups are cancelled as soon as the term changes so a slow answer can't replace a newer one
+  useEffect(() => {
+    if (mode === 'country' || mode === 'filter' || needle.length < 2) {
+      setRemoteSuggestions([]);
+      setIsSuggesting(false);
+      return;
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    setIsSuggesting(true);
+
+    const load = async () => {
+      if (mode === 'tag') {
+        const tags = await radioService.getTags(needle, MAX_TAGS * 2, { signal });
+        return tags.map(toTagSuggestion);
+      }
+      const [stations, tags] = await Promise.all([
+        stationName.length >= 2
+          ? radioService.searchStations({ name: stationName, limit: MAX_STATIONS, order: 'clickcount' }, { signal })
+          : Promise.resolve([]),
+        radioService.getTags(needle, 3, { signal }),
+      ]);
+      return [
+        ...stations.map((s): Suggestion => ({
+          kind: 'station', id: `station-${s.stationuuid}`, label: s.name,
+          detail: [s.country, s.codec && `${s.codec}${s.bitrate ? ` ${s.bitrate}k` : ''}`].filter(Boolean).join(' • '), station: s
+        })),
+        ...tags.map(toTagSuggestion),
+      ];
+    };
+
+    load()
+      .then(results => { if (!signal.aborted) setRemoteSuggestions(results); })
+      .catch(err => { if (!isAbortError(err)) { console.error("Suggestions failed", err); setRemoteSuggestions([]); } })
+      .finally(() => { if (!signal.aborted) setIsSuggesting(false); });
+
+    return () => controller.abort();
+  }, [mode, needle, stationName]);
+
+  const suggestions = useMemo(() => [...remoteSuggestions, ...countrySuggestions], [remoteSuggestions, countrySuggestions]);
+
+  useEffect(() => { setActiveIndex(-1); }, [suggestions]);
+
+  const isOpen = isFocused && value.trim().length > 0;
+
+  const pick = (suggestion: Suggestion) => {
+    switch (suggestion.kind) {
+      case 'station':
+        onPickStation(suggestion.station);
+        break;
+      case 'tag':
+        onChange(replaceLastToken(value, formatTagToken(suggestion.tag)));
+        onSubmit();
+        break;
+      case 'country':
+        onChange(replaceLastToken(value, formatCountryToken(suggestion.name)));
+        onSubmit();
+        break;
+    }
+    setIsFocused(false);
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(suggestions.length - 1, prev + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(-1, prev - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0 && suggestions[activeIndex]) {
+      e.preventDefault();
+      pick(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit();
+    setIsFocused(false);
+  };
+
+  const sectionTitle = (kind: Suggestion['kind']) => kind === 'station' ? 'Stations' : kind === 'tag' ? 'Genres & Tags' : 'Countries';
+
+  return (
+    <form onSubmit={handleSubmit} className="relative w-full">
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search station, #genre, or @country..."
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+        aria-invalid={errors.length > 0}
+        className={`w-full h-10 bg-slate-900 border rounded-full pl-10 pr-4 text-sm focus:outline-none focus:ring-2 transition-all ${errors.length > 0 ? 'border-rose-500/40 focus:ring-rose-500/40' : 'border-white/5 focus:ring-sky-500/50'}`}
+      />
+      <div className="absolute left-3 top-2.5 text-slate-500"><ICONS.Search /></div>
+      {isSuggesting && <div className="absolute right-3 top-3 w-4 h-4 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>}
+
+      {isOpen && (
+        <div className="absolute top-12 left-0 right-0 glass rounded-2xl border border-white/10 shadow-2xl overflow-hidden z-50 animate-in fade-in slide-in-from-top-1 duration-150" role="listbox">
+          {errors.length > 0 && (
+            <div className="px-4 py-2 border-b border-white/5 bg-rose-500/10 flex flex-col gap-0.5">
+              {errors.map(err => (
+                <div key={`${err.start}-${err.raw}`} className="text-[11px] text-rose-300">
+                  <code className="font-bold text-rose-400">{err.raw}</code> — {err.message}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="max-h-96 overflow-y-auto custom-scrollbar py-2">
+            {suggestions.map((suggestion, index) => (
+              <React.Fragment key={suggestion.id}>
+                {(index === 0 || suggestions[index - 1].kind !== suggestion.kind) && (
+                  <div className="px-4 pt-2 pb-1 text-[9px] font-bold text-slate-500 uppercase tracking-widest">{sectionTitle(suggestion.kind)}</div>
+                )}
+                <button
+                  type="button"
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => pick(suggestion)}
+                  className={`w-full flex items-center justify-between gap-3 px-4 py-2 text-left transition-colors ${index === activeIndex ? 'bg-sky-500/15 text-white' : 'text-slate-300 hover:bg-white/5'}`}
+                >
+                  <span className="text-xs font-semibold truncate">{suggestion.label}</span>
+                  <span className="text-[10px] text-slate-500 shrink-0 truncate max-w-[45%]">{suggestion.detail}</span>
+                </button>
+              </React.Fragment>
+            ))}
+            {suggestions.length === 0 && !isSuggesting && (
+              <div className="px-4 py-3 text-xs text-slate-500">No suggestions. Press Enter to search anyway.</div>
+            )}
+          </div>
+          <div className="px-4 py-2 border-t border-white/5 bg-slate-950/50 text-[10px] text-slate-500 flex flex-wrap gap-x-3 gap-y-1">
+            <span><span className="text-sky-400 font-bold">#</span>jazz</span>
+            <span><span className="text-sky-400 font-bold">@</span>France</span>
+            <span className="text-sky-400 font-bold">lang:french</span>
+            <span className="text-sky-400 font-bold">codec:aac</span>
+            <span className="text-sky-400 font-bold">bitrate&gt;=128</span>
+            <span className="text-sky-400 font-bold">https:yes</span>
+            <span className="text-sky-400 font-bold">hls:no</span>
+          </div>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { radioService, MirrorState } from '../services/radioService';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { UnreachableStationsMode } from '../types';
+import { ICONS } from '../constants';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenTransfer: () => void;
+}
+
+const formatHost = (url: string) => url.replace(/^https?:\/\//, '');
+
+const UNREACHABLE_OPTIONS: { label: string; value: UnreachableStationsMode }[] = [
+  { label: 'Show', value: 'show' },
+  { label: 'Move to end', value: 'sort' },
+  { label: 'Hide', value: 'hide' },
+];
+
+const CROSSFADE_OPTIONS = [0, 1, 3, 5, 8];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onOpenTransfer }) => {
+  const [mirrorState, setMirrorState] = useState<MirrorState>(radioService.getMirrorState());
+  const [cacheCleared, setCacheCleared] = useState(false);
+  const [preferences, setPreferences] = usePersistentState('preferences');
+
+  useEffect(() => radioService.subscribeMirrors(setMirrorState), []);
+
+  if (!isOpen) return null;
+
+  const { active, pinned, probing, mirrors } = mirrorState;
+
+  const handleClearCache = async () => {
+    try {
+      await radioService.clearCache();
+      setCacheCleared(true);
+      setTimeout(() => setCacheCleared(false), 2000);
+    } catch (err) { console.error("Failed to clear cache", err); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-lg glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <div className="text-sky-400"><ICONS.Settings /></div>
+            <h2 className="font-outfit font-semibold text-white text-lg">Settings</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Directory Mirror</h3>
+            <button
+              onClick={() => radioService.probeMirrors()}
+              disabled={probing || !!pinned}
+              className="text-[10px] font-bold uppercase tracking-widest text-sky-500 hover:text-sky-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {probing ? 'Probing...' : 'Find Fastest'}
+            </button>
+          </div>
+
+          <div className="p-4 rounded-2xl bg-sky-500/10 border border-sky-500/20 mb-4">
+            <div className="text-[10px] text-slate-400 uppercase tracking-widest font-bold mb-1">In use</div>
+            <div className="text-sm font-bold text-white truncate">{active ? formatHost(active) : 'Not selected yet'}</div>
+            {pinned && <div className="text-[10px] text-amber-400 mt-1">Pinned to a fixed base URL — mirror failover is disabled.</div>}
+          </div>
+
+          {!pinned && (
+            <div className="flex flex-col gap-1.5 max-h-64 overflow-y-auto custom-scrollbar">
+              {mirrors.map(mirror => {
+                const isActive = mirror.url === active;
+                return (
+                  <div key={mirror.url} className={`flex items-center gap-3 px-3 py-2.5 rounded-xl border transition-all ${isActive ? 'bg-white/5 border-sky-500/30' : 'bg-slate-900/50 border-white/5'}`}>
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${mirror.healthy === true ? 'bg-emerald-500' : mirror.healthy === false ? 'bg-rose-500' : 'bg-slate-600'}`}></span>
+                    <span className="flex-1 min-w-0 text-xs text-slate-300 truncate">{formatHost(mirror.url)}</span>
+                    <span className="text-[10px] text-slate-500 font-bold tabular-nums">
+                      {mirror.latency !== null ? `${mirror.latency} ms` : mirror.healthy === false ? 'down' : '—'}
+                    </span>
+                    <button
+                      onClick={() => radioService.selectMirror(mirror.url)}
+                      disabled={isActive}
+                      className="text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-sky-400 disabled:text-sky-400 disabled:cursor-default transition-colors"
+                    >
+                      {isActive ? 'Active' : 'Use'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+
+        <section className="mt-6 pt-6 border-t border-white/5">
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Unreachable Stations</h3>
+          <p className="text-[11px] text-slate-500 mb-3">Visible stations are checked in the background. Choose what happens to the ones that don't answer.</p>
+          <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-xl border border-white/5 w-fit">
+            {UNREACHABLE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setPreferences(prev => ({ ...prev, unreachableStations: option.value }))}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${preferences.unreachableStations === option.value ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mt-6 pt-6 border-t border-white/5">
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Crossfade</h3>
+          <p className="text-[11px] text-slate-500 mb-3">The next station buffers while the current one keeps playing, then fades in. If it can't be reached, you keep listening to the current one.</p>
+          <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-xl border border-white/5 w-fit">
+            {CROSSFADE_OPTIONS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => setPreferences(prev => ({ ...prev, crossfadeSeconds: seconds }))}
+                className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-all ${preferences.crossfadeSeconds === seconds ? 'bg-sky-500 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section className="mt-6 pt-6 border-t border-white/5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Favorites</h3>
+              <p className="text-[11px] text-slate-500">Move favorites to and from VLC, foobar2000 and other players as M3U, PLS or XSPF playlists.</p>
+            </div>
+            <button
+              onClick={() => { onClose(); onOpenTransfer(); }}
+              className="shrink-0 ml-4 px-3 py-1.5 rounded-lg border bg-white/5 border-white/10 text-slate-400 hover:text-sky-400 text-[10px] font-bold uppercase tracking-widest transition-all"
+            >
+              Import / Export
+            </button>
+          </div>
+        </section>
+
+        <section className="mt-6 pt-6 border-t border-white/5">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">Offline Cache</h3>
+              <p className="text-[11px] text-slate-500">Recently browsed stations and countries are kept for instant, offline access.</p>
+            </div>
+            <button
+              onClick={handleClearCache}
+              className={`shrink-0 ml-4 px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-widest transition-all ${cacheCleared ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-white/5 border-white/10 text-slate-400 hover:text-sky-400'}`}
+            >
+              {cacheCleared ? 'Cleared' : 'Clear'}
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { SHORTCUTS } from '../utils/shortcuts';
+import { ICONS } from '../constants';
+
+interface ShortcutsHelpProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ShortcutsHelp: React.FC<ShortcutsHelpProps> = ({ isOpen, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-3xl border border-white/10 shadow-2xl p-6 animate-in fade-in zoom-in-95 duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-5">
+          <div className="flex items-center gap-2">
+            <div className="text-sky-400"><ICONS.Keyboard /></div>
+            <h2 className="font-outfit font-semibold text-white text-lg">Keyboard shortcuts</h2>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+        <ul className="flex flex-col gap-2">
+          {SHORTCUTS.map(shortcut => (
+            <li key={shortcut.id} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-slate-300">{shortcut.label}</span>
+              <span className="flex gap-1 shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="min-w-[1.75rem] text-center px-2 py-1 rounded-lg bg-slate-900/70 border border-white/10 text-[11px] font-bold text-slate-300 shadow-inner">{key}</kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-[11px] text-slate-500 mt-5 leading-relaxed">
+          Shortcuts are ignored while typing in a field. Media keys and lock-screen controls play, pause and skip stations too.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Station } from '../types';
+import { useSimilarStations } from '../hooks/useSimilarStations';
+import { describeMatch } from '../utils/stationSimilarity';
+import ErrorState from './ErrorState';
+import { ICONS } from '../constants';
+
+interface SimilarStationsPanelProps {
+  /** The station to find matches for; the panel is closed while this is null. */
+  station: Station | null;
+  onClose: () => void;
+  currentStationId?: string;
+  /** Plays a match; `matches` is the whole result list, in order, for queueing. */
+  onPlay: (station: Station, matches: Station[]) => void;
+}
+
+const SimilarStationsPanel: React.FC<SimilarStationsPanelProps> = ({ station, onClose, currentStationId, onPlay }) => {
+  const { matches, loading, error, retry } = useSimilarStations(station);
+
+  if (!station) return null;
+
+  const stations = matches.map(match => match.station);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <aside className="w-full max-w-md h-full flex flex-col glass border-l border-white/10 shadow-2xl animate-in slide-in-from-right duration-200" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-4 p-6 pb-4">
+          <div className="min-w-0">
+            <h2 className="font-outfit font-semibold text-white text-lg">More like this</h2>
+            <p className="text-[11px] text-slate-500 truncate">{station.name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-500 hover:text-white hover:bg-white/5 transition-colors" title="Close">
+            <ICONS.Close />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-28">
+          {loading && (
+            <div className="flex items-center justify-center gap-3 py-16 text-sky-500 font-bold text-[10px] tracking-[0.3em] animate-pulse">SCANNING THE DIAL...</div>
+          )}
+          {!loading && error && <ErrorState error={error} onRetry={retry} title="Couldn't find matches" compact />}
+          {!loading && !error && matches.length === 0 && (
+            <p className="py-16 text-center text-sm text-slate-500">Nothing similar turned up. This station has few tags to go on.</p>
+          )}
+          {!loading && matches.length > 0 && (
+            <ul className="space-y-1">
+              {matches.map(match => {
+                const isCurrent = match.station.stationuuid === currentStationId;
+                return (
+                  <li key={match.station.stationuuid}>
+                    <button
+                      onClick={() => onPlay(match.station, stations)}
+                      className={`w-full flex items-center gap-3 p-2 rounded-xl border text-left transition-all ${isCurrent ? 'border-sky-500/30 bg-sky-500/5' : 'border-transparent hover:bg-white/5'}`}
+                    >
+                      <div className="w-10 h-10 bg-slate-800 rounded-lg flex-shrink-0 flex items-center justify-center overflow-hidden border border-white/5">
+                        {match.station.favicon ? (
+                          <img src={match.station.favicon} alt="" className="w-full h-full object-contain p-1" onError={(e) => (e.currentTarget.style.display = 'none')} />
+                        ) : <ICONS.Radio />}
+                      </div>
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-sm truncate ${isCurrent ? 'text-sky-300' : 'text-white'}`}>{match.station.name}</p>
+                        <p className="text-[10px] text-slate-500 truncate">{describeMatch(match)}</p>
+                      </div>
+                      <span className="text-[9px] font-bold text-slate-500 uppercase tracking-widest shrink-0 tabular-nums">
+                        {match.station.codec}{match.station.bitrate ? ` ${match.station.bitrate}k` : ''}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default SimilarStationsPanel;
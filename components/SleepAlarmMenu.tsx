@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Station } from '../types';
+import { SleepTimer } from '../hooks/useSleepTimer';
+import { Alarm } from '../hooks/useAlarm';
+import { ICONS } from '../constants';
+
+interface SleepAlarmMenuProps {
+  sleepTimer: SleepTimer;
+  alarm: Alarm;
+  /** Stations the alarm can be set to; usually the favorites. */
+  alarmStations: Station[];
+}
+
+const SLEEP_PRESETS = [15, 30, 60];
+const RAMP_OPTIONS = [0, 1, 5, 10, 15];
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+// Re-renders once a second while something is counting down, without touching the rest of the player
+const useNow = (active: boolean) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!active) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [active]);
+  return now;
+};
+
+const SleepAlarmMenu: React.FC<SleepAlarmMenuProps> = ({ sleepTimer, alarm, alarmStations }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState('45');
+  const now = useNow(sleepTimer.endsAt !== null);
+
+  const startSleep = (minutes: number) => {
+    if (!Number.isFinite(minutes) || minutes <= 0) return;
+    sleepTimer.start(minutes);
+    setIsOpen(false);
+  };
+
+  const { settings } = alarm;
+  const isActive = sleepTimer.endsAt !== null || alarm.nextAt !== null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1.5 p-2.5 rounded-full transition-all border ${isActive ? 'bg-indigo-500/15 border-indigo-500/30 text-indigo-300' : 'bg-slate-900/50 text-slate-400 hover:text-sky-400 border-white/5 hover:border-sky-500/20'}`}
+        title="Sleep timer & alarm"
+      >
+        <ICONS.Moon />
+        {sleepTimer.endsAt !== null && <span className="text-[10px] font-bold tabular-nums pr-1">{formatRemaining(sleepTimer.endsAt - now)}</span>}
+        {sleepTimer.endsAt === null && alarm.nextAt !== null && <span className="text-[10px] font-bold tabular-nums pr-1">{settings.time}</span>}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)}></div>
+          <div className="absolute bottom-14 right-0 z-50 w-72 glass rounded-2xl border border-white/10 shadow-2xl p-4 animate-in fade-in slide-in-from-bottom-2 duration-150">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Sleep timer</h4>
+              {sleepTimer.endsAt !== null && (
+                <button onClick={sleepTimer.cancel} className="text-[10px] font-bold uppercase tracking-widest text-rose-400 hover:text-rose-300 transition-colors">Cancel</button>
+              )}
+            </div>
+            {sleepTimer.endsAt !== null && (
+              <p className="text-[11px] text-indigo-300 mb-2">Fading out and pausing in {formatRemaining(sleepTimer.endsAt - now)}</p>
+            )}
+            <div className="flex items-center gap-1.5">
+              {SLEEP_PRESETS.map(minutes => (
+                <button key={minutes} onClick={() => startSleep(minutes)} className="flex-1 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[11px] font-bold text-slate-300 hover:bg-indigo-500/20 hover:text-white transition-all">
+                  {minutes}m
+                </button>
+              ))}
+            </div>
+            <form onSubmit={(e) => { e.preventDefault(); startSleep(Number(customMinutes)); }} className="flex items-center gap-1.5 mt-1.5">
+              <input
+                type="number" min="1" max="720"
+                value={customMinutes}
+                onChange={(e) => setCustomMinutes(e.target.value)}
+                className="flex-1 min-w-0 bg-slate-900 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/30"
+              />
+              <button type="submit" className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/5 text-[11px] font-bold text-slate-300 hover:bg-indigo-500/20 hover:text-white transition-all">Custom</button>
+            </form>
+
+            <div className="mt-4 pt-4 border-t border-white/5">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Wake-up alarm</h4>
+                <label className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-400 cursor-pointer">
+                  <input type="checkbox" checked={settings.enabled} onChange={(e) => alarm.update({ enabled: e.target.checked })} className="accent-indigo-400" />
+                  {settings.enabled ? 'On' : 'Off'}
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-1.5">
+                <input
+                  type="time"
+                  value={settings.time}
+                  onChange={(e) => e.target.value && alarm.update({ time: e.target.value })}
+                  className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white [color-scheme:dark]"
+                />
+                <select
+                  value={settings.rampMinutes}
+                  onChange={(e) => alarm.update({ rampMinutes: Number(e.target.value) })}
+                  className="bg-slate-900 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-300"
+                  title="Volume ramp-up"
+                >
+                  {RAMP_OPTIONS.map(m => <option key={m} value={m}>{m ? `${m} min fade-in` : 'No fade-in'}</option>)}
+                </select>
+              </div>
+              <select
+                value={settings.stationuuid ?? ''}
+                onChange={(e) => alarm.update({ stationuuid: e.target.value || null })}
+                className="w-full mt-1.5 bg-slate-900 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-slate-300"
+              >
+                <option value="">Random favorite</option>
+                {alarmStations.map(s => <option key={s.stationuuid} value={s.stationuuid}>{s.name}</option>)}
+              </select>
+              <p className="text-[10px] text-slate-500 mt-2 leading-relaxed">
+                {alarm.isRinging
+                  ? 'Alarm is playing. Pause to stop it.'
+                  : 'Keep this tab open. If the stream fails, another favorite or a popular station plays instead.'}
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SleepAlarmMenu;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Station } from '../types';
+import { StationHealth, SLOW_STREAM_MS } from '../services/healthService';
+import { isUnreachable } from '../hooks/useStationHealth';
+
+interface StationHealthBadgesProps {
+  station: Station;
+  health: StationHealth | undefined;
+}
+
+const BADGE = 'text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider border';
+
+const StationHealthBadges: React.FC<StationHealthBadgesProps> = ({ station, health }) => {
+  const checked = health ? `Checked ${new Date(health.checkedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}` : 'Failed radio-browser\'s last check';
+
+  if (isUnreachable(station, health)) {
+    return <span className={`${BADGE} bg-rose-500/10 text-rose-400 border-rose-500/20`} title={checked}>Down</span>;
+  }
+  if (!health) return null;
+
+  const isSlow = health.latencyMs !== null && health.latencyMs > SLOW_STREAM_MS;
+  return (
+    <>
+      {isSlow ? (
+        <span className={`${BADGE} bg-amber-500/10 text-amber-400 border-amber-500/20`} title={`Answered in ${health.latencyMs} ms · ${checked}`}>Slow</span>
+      ) : (
+        <span className={`${BADGE} bg-emerald-500/10 text-emerald-400 border-emerald-500/20`} title={`${health.latencyMs !== null ? `Answered in ${health.latencyMs} ms · ` : ''}${checked}`}>Live</span>
+      )}
+      {health.https && <span className={`${BADGE} bg-sky-500/10 text-sky-400 border-sky-500/20`} title="Available over https">https</span>}
+      {health.hls && <span className={`${BADGE} bg-violet-500/10 text-violet-300 border-violet-500/20`} title="HTTP Live Streaming">HLS</span>}
+      {health.codec && <span className={`${BADGE} bg-slate-800 text-slate-400 border-white/5`} title={health.contentType ?? undefined}>{health.codec}</span>}
+    </>
+  );
+};
+
+export default StationHealthBadges;
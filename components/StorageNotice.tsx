@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { storage } from '../services/storage';
+import { useStorageStatus } from '../hooks/usePersistentState';
+import { ICONS } from '../constants';
+
+const SLICE_LABELS: Record<string, string> = {
+  favorites: 'favorites',
+  collections: 'collections',
+  votes: 'votes',
+  recent: 'recently played',
+  history: 'listening history',
+  alarm: 'alarm settings',
+  mirror: 'mirror choice',
+  tracks: 'recent tracks',
+  strategies: 'playback preferences',
+  preferences: 'preferences',
+  audio: 'sound settings',
+  stationEq: 'station equalizer settings',
+  loudness: 'loudness measurements',
+  paletteRecent: 'command palette history',
+  djConversations: 'AI DJ conversations',
+};
+
+/** Tells the user when their saved data is not being kept the way they expect. */
+const StorageNotice: React.FC = () => {
+  const { available, quotaExceeded, recovered } = useStorageStatus();
+  const [dismissedUnavailable, setDismissedUnavailable] = useState(false);
+
+  const messages: { id: string; text: string; onDismiss?: () => void }[] = [];
+  if (!available && !dismissedUnavailable) {
+    messages.push({ id: 'unavailable', text: 'Your browser is blocking local storage, so favorites and history only last until this tab is closed.', onDismiss: () => setDismissedUnavailable(true) });
+  }
+  if (quotaExceeded) {
+    messages.push({ id: 'quota', text: 'Browser storage is full. Your latest changes are kept for this session only — remove some favorites or collections to free space.' });
+  }
+  if (recovered.length > 0) {
+    const slices = Array.from(new Set(recovered.map(r => SLICE_LABELS[r.key] ?? r.key))).join(', ');
+    messages.push({ id: 'recovered', text: `Saved ${slices} could not be read and were reset. A copy of the damaged data was kept in this browser.`, onDismiss: () => storage.discardBackups() });
+  }
+
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="mb-6 flex flex-col gap-2">
+      {messages.map(message => (
+        <div key={message.id} className="flex items-center gap-3 px-4 py-3 rounded-2xl bg-amber-500/10 border border-amber-500/20 animate-in fade-in">
+          <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0"></span>
+          <p className="flex-1 text-[11px] text-amber-200/90">{message.text}</p>
+          {message.onDismiss && (
+            <button onClick={message.onDismiss} className="p-1 rounded-full text-amber-300/60 hover:text-white transition-colors" title="Dismiss">
+              <div className="scale-75"><ICONS.Close /></div>
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StorageNotice;
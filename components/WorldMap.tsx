@@ -1,14 +1,41 @@
-
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { geoNaturalEarth1, geoPath, geoGraticule10 } from 'd3-geo';
+import { Station } from '../types';
 import { Country } from '../services/radioService';
-import { ICONS } from '../constants';
+import { geoService, CountryShape } from '../services/geoService';
+import { COLORS, ICONS } from '../constants';
+import { clusterPoints, hasCoordinates, StationCluster, StationPoint } from '../utils/mapClustering';
 
 interface WorldMapProps {
   countries: Country[];
   onSelectCountry: (code: string) => void;
   selectedCountry: string | null;
+  stations?: Station[];
+  currentStationId?: string | null;
+  onPlayStation?: (station: Station) => void;
+}
+
+interface MapTransform {
+  k: number;
+  x: number;
+  y: number;
 }
 
+const VIEW_WIDTH = 960;
+const VIEW_HEIGHT = 500;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 12;
+const ZOOM_STEP = 1.5;
+const IDENTITY_TRANSFORM: MapTransform = { k: 1, x: 0, y: 0 };
+// On-screen sizes in viewBox units; divided by the zoom factor when rendering
+const CLUSTER_RADIUS = 28;
+const MARKER_RADIUS = 4;
+
+// Zooming only helps while the cluster would still come apart at the closest zoom;
+// stations sharing one spot (often a whole city's) are listed instead
+const canZoomApart = (cluster: StationCluster, k: number) =>
+  k < MAX_ZOOM && cluster.extent >= CLUSTER_RADIUS / MAX_ZOOM / 2;
+
 const getFlagEmoji = (countryCode: string) => {
   if (!countryCode) return '';
   return countryCode.toUpperCase().replace(/./g, char => 
@@ -16,9 +43,75 @@ const getFlagEmoji = (countryCode: string) => {
   );
 };
 
-const WorldMap: React.FC<WorldMapProps> = ({ countries, onSelectCountry, selectedCountry }) => {
+// Log scale so that a handful of huge countries don't wash out everyone else
+const getChoroplethFill = (count: number, maxCount: number) => {
+  if (count <= 0 || maxCount <= 0) return 'rgba(30, 41, 59, 0.7)';
+  const t = Math.log10(count + 1) / Math.log10(maxCount + 1);
+  return `rgba(14, 165, 233, ${(0.12 + t * 0.78).toFixed(3)})`;
+};
+
+const clampTransform = ({ k, x, y }: MapTransform): MapTransform => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+  return {
+    k: zoom,
+    x: Math.min(0, Math.max(VIEW_WIDTH * (1 - zoom), x)),
+    y: Math.min(0, Math.max(VIEW_HEIGHT * (1 - zoom), y)),
+  };
+};
+
+const WorldMap: React.FC<WorldMapProps> = ({ countries, onSelectCountry, selectedCountry, stations = [], currentStationId, onPlayStation }) => {
   const [search, setSearch] = useState('');
   const [sortBy, setSortBy] = useState<'count' | 'name'>('count');
+  const [shapes, setShapes] = useState<CountryShape[]>([]);
+  const [shapesStatus, setShapesStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [transform, setTransform] = useState<MapTransform>(IDENTITY_TRANSFORM);
+  const [hovered, setHovered] = useState<{ code: string; name: string; x: number; y: number } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [showUnmapped, setShowUnmapped] = useState(false);
+  const [listedCluster, setListedCluster] = useState<Station[] | null>(null);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; origin: MapTransform; moved: boolean } | null>(null);
+  const suppressClickRef = useRef(false);
+  const listItemRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
+
+  const loadShapes = useCallback(() => {
+    setShapesStatus('loading');
+    geoService.getCountryShapes()
+      .then(data => { setShapes(data); setShapesStatus('ready'); })
+      .catch(err => { console.error("Failed to load map shapes", err); setShapesStatus('error'); });
+  }, []);
+
+  useEffect(() => { loadShapes(); }, [loadShapes]);
+
+  const projection = useMemo(() => geoNaturalEarth1().fitSize([VIEW_WIDTH, VIEW_HEIGHT], { type: 'Sphere' }), []);
+  const pathGenerator = useMemo(() => geoPath(projection), [projection]);
+  const spherePath = useMemo(() => pathGenerator({ type: 'Sphere' }) || '', [pathGenerator]);
+  const graticulePath = useMemo(() => pathGenerator(geoGraticule10()) || '', [pathGenerator]);
+
+  const shapePaths = useMemo(() => 
+    shapes.map(shape => ({ shape, d: pathGenerator(shape.feature) || '' })),
+  [shapes, pathGenerator]);
+
+  const { mappedPoints, unmappedStations } = useMemo(() => {
+    const points: StationPoint[] = [];
+    const unmapped: Station[] = [];
+    for (const station of stations) {
+      const projected = hasCoordinates(station) ? projection([station.geo_long!, station.geo_lat!]) : null;
+      if (projected) points.push({ station, x: projected[0], y: projected[1] });
+      else unmapped.push(station);
+    }
+    return { mappedPoints: points, unmappedStations: unmapped };
+  }, [stations, projection]);
+
+  const clusters = useMemo(() => 
+    clusterPoints(mappedPoints, CLUSTER_RADIUS / transform.k),
+  [mappedPoints, transform.k]);
+
+  const countryByCode = useMemo(() => new Map(countries.map(c => [c.iso_3166_1, c])), [countries]);
+  const countsByCode = useMemo(() => new Map(countries.map(c => [c.iso_3166_1, c.stationcount])), [countries]);
+  const maxCount = useMemo(() => countries.reduce((max, c) => Math.max(max, c.stationcount), 0), [countries]);
 
   const filteredCountries = useMemo(() => {
     let result = countries.filter(c => 
@@ -35,6 +128,125 @@ const WorldMap: React.FC<WorldMapProps> = ({ countries, onSelectCountry, selecte
     return result;
   }, [countries, search, sortBy]);
 
+  /** Converts a client (screen) position into viewBox coordinates of the SVG. */
+  const toViewPoint = useCallback((clientX: number, clientY: number) => {
+    const svg = svgRef.current;
+    if (!svg) return { x: VIEW_WIDTH / 2, y: VIEW_HEIGHT / 2 };
+    const rect = svg.getBoundingClientRect();
+    const scale = Math.min(rect.width / VIEW_WIDTH, rect.height / VIEW_HEIGHT) || 1;
+    const offsetX = (rect.width - VIEW_WIDTH * scale) / 2;
+    const offsetY = (rect.height - VIEW_HEIGHT * scale) / 2;
+    return { x: (clientX - rect.left - offsetX) / scale, y: (clientY - rect.top - offsetY) / scale };
+  }, []);
+
+  /** Centers the view on a projected point at the given zoom level. */
+  const focusOn = useCallback((x: number, y: number, k: number) => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+    setTransform(clampTransform({ k: zoom, x: VIEW_WIDTH / 2 - zoom * x, y: VIEW_HEIGHT / 2 - zoom * y }));
+  }, []);
+
+  const zoomAt = useCallback((px: number, py: number, factor: number) => {
+    setTransform(prev => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.k * factor));
+      const ratio = k / prev.k;
+      return clampTransform({ k, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio });
+    });
+  }, []);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const point = toViewPoint(e.clientX, e.clientY);
+      zoomAt(point.x, point.y, Math.exp(-e.deltaY * 0.002));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [toViewPoint, zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    suppressClickRef.current = false;
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: transform, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < 4) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      setIsDragging(true);
+      setHovered(null);
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    const start = toViewPoint(drag.startX, drag.startY);
+    const current = toViewPoint(e.clientX, e.clientY);
+    setTransform(clampTransform({
+      k: drag.origin.k,
+      x: drag.origin.x + (current.x - start.x),
+      y: drag.origin.y + (current.y - start.y),
+    }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.moved) return;
+    suppressClickRef.current = true;
+    setIsDragging(false);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleShapeHover = (e: React.MouseEvent, shape: CountryShape) => {
+    if (dragRef.current?.moved || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    setHovered({ code: shape.code, name: shape.name, x: e.clientX - rect.left, y: e.clientY - rect.top });
+  };
+
+  /** Swallows the click that ends a drag gesture. */
+  const consumeDragClick = () => {
+    if (!suppressClickRef.current) return false;
+    suppressClickRef.current = false;
+    return true;
+  };
+
+  const handleShapeClick = (shape: CountryShape) => {
+    if (consumeDragClick()) return;
+    if (countsByCode.get(shape.code)) onSelectCountry(shape.code);
+  };
+
+  const handleMarkerClick = (e: React.MouseEvent, station: Station) => {
+    e.stopPropagation();
+    if (consumeDragClick()) return;
+    onPlayStation?.(station);
+  };
+
+  const handleClusterClick = (e: React.MouseEvent, cluster: StationCluster) => {
+    e.stopPropagation();
+    if (consumeDragClick()) return;
+    if (canZoomApart(cluster, transform.k)) focusOn(cluster.x, cluster.y, transform.k * 2);
+    else setListedCluster(cluster.stations);
+  };
+
+  // Keep map and list in sync: frame the selected country and reveal it in the list
+  useEffect(() => {
+    if (!selectedCountry) return;
+    listItemRefs.current.get(selectedCountry)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+
+    const shape = shapes.find(s => s.code === selectedCountry);
+    if (!shape) return;
+    const [[x0, y0], [x1, y1]] = pathGenerator.bounds(shape.feature);
+    const k = Math.min(6, 0.5 / Math.max((x1 - x0) / VIEW_WIDTH, (y1 - y0) / VIEW_HEIGHT));
+    focusOn((x0 + x1) / 2, (y0 + y1) / 2, k);
+  }, [selectedCountry, shapes, pathGenerator, focusOn]);
+
+  useEffect(() => { setShowUnmapped(false); setListedCluster(null); }, [stations]);
+
   const totalStations = useMemo(() => 
     countries.reduce((acc, curr) => acc + curr.stationcount, 0), 
   [countries]);
@@ -42,42 +254,202 @@ const WorldMap: React.FC<WorldMapProps> = ({ countries, onSelectCountry, selecte
   return (
     <div className="w-full bg-slate-900/40 rounded-3xl overflow-hidden border border-white/5 flex flex-col md:flex-row h-[600px] shadow-2xl">
       {/* Map/Visual Side */}
-      <div className="hidden md:flex flex-1 items-center justify-center relative bg-[#020617] overflow-hidden group">
-        <div className="absolute inset-0 opacity-30 pointer-events-none transition-opacity group-hover:opacity-40">
-          <div className="w-full h-full bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-sky-500/30 via-transparent to-transparent"></div>
+      <div ref={containerRef} className="hidden md:flex flex-1 relative bg-[#020617] overflow-hidden">
+        <div className="absolute inset-0 opacity-30 pointer-events-none">
+          <div className="w-full h-full bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-sky-500/20 via-transparent to-transparent"></div>
         </div>
-        
-        <div className="text-center z-10 p-8">
-          <div className="mb-8 inline-block p-6 bg-sky-500/10 rounded-full text-sky-400 animate-pulse relative">
-            <div className="absolute inset-0 bg-sky-500/20 rounded-full blur-xl scale-125"></div>
-            <svg xmlns="http://www.w3.org/2000/svg" width="80" height="80" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round" viewBox="0 0 24 24" className="relative z-10">
-              <circle cx="12" cy="12" r="10"></circle>
-              <line x1="2" y1="12" x2="22" y2="12"></line>
-              <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path>
-            </svg>
-          </div>
-          <h2 className="text-3xl font-outfit font-extrabold mb-3 bg-gradient-to-br from-white to-slate-400 bg-clip-text text-transparent">Global Frequency Map</h2>
-          <p className="text-slate-400 text-sm max-w-[320px] mx-auto leading-relaxed mb-6">
-            Access <span className="text-sky-400 font-bold">{totalStations.toLocaleString()}</span> live broadcasts from <span className="text-sky-400 font-bold">{countries.length}</span> countries around the planet.
+
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          className={`w-full h-full relative z-10 touch-none select-none ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onMouseLeave={() => setHovered(null)}
+        >
+          <g transform={`translate(${transform.x},${transform.y}) scale(${transform.k})`}>
+            <path d={spherePath} fill="rgba(15, 23, 42, 0.6)" stroke="rgba(255,255,255,0.05)" vectorEffect="non-scaling-stroke" />
+            <path d={graticulePath} fill="none" stroke="rgba(255,255,255,0.04)" vectorEffect="non-scaling-stroke" />
+            {shapePaths.map(({ shape, d }) => {
+              const isSelected = selectedCountry === shape.code;
+              const isHovered = hovered?.code === shape.code;
+              return (
+                <path
+                  key={shape.code + shape.name}
+                  d={d}
+                  fill={isSelected ? COLORS.primary : getChoroplethFill(countsByCode.get(shape.code) || 0, maxCount)}
+                  stroke={isSelected ? '#e0f2fe' : isHovered ? 'rgba(255,255,255,0.6)' : 'rgba(2, 6, 23, 0.8)'}
+                  strokeWidth={isSelected || isHovered ? 1.5 : 0.5}
+                  vectorEffect="non-scaling-stroke"
+                  className="transition-[fill] duration-200 cursor-pointer"
+                  onMouseMove={(e) => handleShapeHover(e, shape)}
+                  onClick={() => handleShapeClick(shape)}
+                />
+              );
+            })}
+
+            {/* Station Markers */}
+            {clusters.map(cluster => {
+              if (cluster.stations.length === 1) {
+                const station = cluster.stations[0];
+                const isCurrent = station.stationuuid === currentStationId;
+                return (
+                  <circle
+                    key={cluster.id}
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={(isCurrent ? MARKER_RADIUS * 1.5 : MARKER_RADIUS) / transform.k}
+                    fill={isCurrent ? COLORS.secondary : COLORS.accent}
+                    stroke="#020617"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                    className="cursor-pointer hover:opacity-80"
+                    onClick={(e) => handleMarkerClick(e, station)}
+                    onMouseMove={(e) => e.stopPropagation()}
+                  >
+                    <title>{station.name}</title>
+                  </circle>
+                );
+              }
+              const radius = (10 + Math.min(10, Math.log2(cluster.stations.length) * 2)) / transform.k;
+              const containsCurrent = cluster.stations.some(st => st.stationuuid === currentStationId);
+              return (
+                <g
+                  key={cluster.id}
+                  className="cursor-pointer"
+                  onClick={(e) => handleClusterClick(e, cluster)}
+                  onMouseMove={(e) => e.stopPropagation()}
+                >
+                  <title>{`${cluster.stations.length} stations • click to ${canZoomApart(cluster, transform.k) ? 'zoom' : 'list them'}`}</title>
+                  <circle
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={radius}
+                    fill="rgba(16, 185, 129, 0.85)"
+                    stroke={containsCurrent ? COLORS.secondary : 'rgba(2, 6, 23, 0.8)'}
+                    strokeWidth={containsCurrent ? 2 : 1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <text
+                    x={cluster.x}
+                    y={cluster.y}
+                    textAnchor="middle"
+                    dominantBaseline="central"
+                    fontSize={10 / transform.k}
+                    fontWeight={700}
+                    fill="#ffffff"
+                    className="pointer-events-none"
+                  >
+                    {cluster.stations.length}
+                  </text>
+                </g>
+              );
+            })}
+          </g>
+        </svg>
+
+        {/* Title & Legend Overlay */}
+        <div className="absolute top-6 left-6 z-20 pointer-events-none">
+          <h2 className="text-2xl font-outfit font-extrabold mb-1 bg-gradient-to-br from-white to-slate-400 bg-clip-text text-transparent">Global Frequency Map</h2>
+          <p className="text-slate-400 text-xs max-w-[280px] leading-relaxed">
+            <span className="text-sky-400 font-bold">{totalStations.toLocaleString()}</span> live broadcasts from <span className="text-sky-400 font-bold">{countries.length}</span> countries.
           </p>
-          <div className="flex justify-center gap-4 text-[10px] uppercase tracking-widest text-slate-500 font-bold">
-            <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-sky-500"></div> FM / AM</span>
-            <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-emerald-500"></div> Digital</span>
-            <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-amber-500"></div> Community</span>
-          </div>
+          {mappedPoints.length > 0 && (
+            <p className="text-[10px] text-emerald-400 font-bold uppercase tracking-widest mt-2">{mappedPoints.length} stations plotted</p>
+          )}
+        </div>
+        <div className="absolute bottom-6 left-6 z-20 pointer-events-none flex items-center gap-2 text-[9px] uppercase tracking-widest text-slate-500 font-bold">
+          <span>Few</span>
+          <div className="w-24 h-1.5 rounded-full" style={{ background: `linear-gradient(to right, ${getChoroplethFill(1, maxCount)}, ${getChoroplethFill(maxCount, maxCount)})` }}></div>
+          <span>Many stations</span>
         </div>
 
-        {/* Background Decorative Grid */}
-        <div className="absolute inset-0 pointer-events-none opacity-5">
-          <svg width="100%" height="100%" xmlns="http://www.w3.org/2000/svg">
-            <defs>
-              <pattern id="gridLarge" width="80" height="80" patternUnits="userSpaceOnUse">
-                <path d="M 80 0 L 0 0 0 80" fill="none" stroke="white" strokeWidth="1" />
-              </pattern>
-            </defs>
-            <rect width="100%" height="100%" fill="url(#gridLarge)" />
-          </svg>
+        {/* Zoom Controls */}
+        <div className="absolute top-6 right-6 z-20 flex flex-col gap-1">
+          <button onClick={() => zoomAt(VIEW_WIDTH / 2, VIEW_HEIGHT / 2, ZOOM_STEP)} className="w-8 h-8 rounded-lg bg-slate-900/80 border border-white/10 text-slate-300 hover:text-sky-400 font-bold transition-colors" title="Zoom in">+</button>
+          <button onClick={() => zoomAt(VIEW_WIDTH / 2, VIEW_HEIGHT / 2, 1 / ZOOM_STEP)} className="w-8 h-8 rounded-lg bg-slate-900/80 border border-white/10 text-slate-300 hover:text-sky-400 font-bold transition-colors" title="Zoom out">−</button>
+          <button onClick={() => setTransform(IDENTITY_TRANSFORM)} className="w-8 h-8 rounded-lg bg-slate-900/80 border border-white/10 text-slate-400 hover:text-sky-400 flex items-center justify-center transition-colors" title="Reset view">
+            <div className="scale-75"><ICONS.World /></div>
+          </button>
         </div>
+
+        {/* Stations a cluster can't be zoomed apart into */}
+        {listedCluster && (
+          <div className="absolute top-6 right-16 z-20 w-56 bg-slate-900/95 border border-white/10 rounded-xl p-2 shadow-xl">
+            <div className="flex items-center justify-between gap-2 px-2 pb-1.5">
+              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{listedCluster.length} stations here</span>
+              <button onClick={() => setListedCluster(null)} className="text-slate-500 hover:text-white transition-colors" title="Close">
+                <div className="scale-75"><ICONS.Close /></div>
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto custom-scrollbar">
+              {listedCluster.map(station => (
+                <button
+                  key={station.stationuuid}
+                  onClick={() => onPlayStation?.(station)}
+                  className={`w-full text-left px-2 py-1.5 rounded-lg text-[11px] font-medium truncate transition-colors ${station.stationuuid === currentStationId ? 'text-rose-400 bg-rose-500/10' : 'text-slate-300 hover:bg-white/5 hover:text-white'}`}
+                >
+                  {station.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Stations without coordinates */}
+        {unmappedStations.length > 0 && (
+          <div className="absolute bottom-6 right-6 z-20 w-56 flex flex-col items-end gap-2">
+            {showUnmapped && (
+              <div className="w-full max-h-48 overflow-y-auto custom-scrollbar bg-slate-900/95 border border-white/10 rounded-xl p-2 shadow-xl">
+                {unmappedStations.map(station => (
+                  <button
+                    key={station.stationuuid}
+                    onClick={() => onPlayStation?.(station)}
+                    className={`w-full text-left px-2 py-1.5 rounded-lg text-[11px] font-medium truncate transition-colors ${station.stationuuid === currentStationId ? 'text-rose-400 bg-rose-500/10' : 'text-slate-300 hover:bg-white/5 hover:text-white'}`}
+                  >
+                    {station.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => setShowUnmapped(prev => !prev)}
+              className="px-3 py-1.5 rounded-lg bg-slate-900/80 border border-white/10 text-[10px] text-slate-400 hover:text-sky-400 font-bold uppercase tracking-widest transition-colors"
+            >
+              {unmappedStations.length} unmapped
+            </button>
+          </div>
+        )}
+
+        {/* Hover Tooltip */}
+        {hovered && (
+          <div
+            className="absolute z-30 pointer-events-none bg-slate-900/95 border border-white/10 rounded-xl px-3 py-2 shadow-xl text-xs whitespace-nowrap"
+            style={{ left: hovered.x + 14, top: hovered.y + 14 }}
+          >
+            <div className="font-bold text-white flex items-center gap-2">
+              <span>{getFlagEmoji(hovered.code)}</span>{countryByCode.get(hovered.code)?.name || hovered.name}
+            </div>
+            <div className="text-[10px] text-slate-400 font-semibold">
+              {(countsByCode.get(hovered.code) || 0).toLocaleString()} stations
+            </div>
+          </div>
+        )}
+
+        {shapesStatus !== 'ready' && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-3 text-slate-500 text-xs font-bold uppercase tracking-widest">
+            {shapesStatus === 'loading' ? (
+              <div className="w-6 h-6 border-2 border-sky-500 border-t-transparent rounded-full animate-spin"></div>
+            ) : (
+              <>
+                <span>Map unavailable</span>
+                <button onClick={loadShapes} className="text-sky-500 hover:underline">Retry</button>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Country List Side */}
@@ -120,6 +492,7 @@ const WorldMap: React.FC<WorldMapProps> = ({ countries, onSelectCountry, selecte
             {filteredCountries.map(country => (
               <button
                 key={country.iso_3166_1}
+                ref={(el) => { if (el) listItemRefs.current.set(country.iso_3166_1, el); else listItemRefs.current.delete(country.iso_3166_1); }}
                 onClick={() => onSelectCountry(country.iso_3166_1)}
                 className={`flex items-center justify-between px-4 py-3.5 rounded-2xl transition-all group relative overflow-hidden ${
                   selectedCountry === country.iso_3166_1 
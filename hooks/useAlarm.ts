@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Station, AlarmSettings, VolumeEnvelope } from '../types';
+import { radioService } from '../services/radioService';
+import { usePersistentState } from './usePersistentState';
+
+// Long timeouts drift or are throttled in background tabs; re-check the clock regularly instead
+const CHECK_INTERVAL_MS = 15_000;
+// Streams that fail within this window after the alarm rings are replaced by another station
+const FALLBACK_WINDOW_MS = 10 * 60_000;
+const MAX_ATTEMPTS = 5;
+// Waking from sleep long after the alarm time shouldn't suddenly start the radio
+const MAX_LATE_MS = 30 * 60_000;
+const RAMP_START_VOLUME = 0.05;
+
+/** Next occurrence of a daily "HH:MM" alarm strictly after `now`. */
+export const getNextAlarmAt = (time: string, now = Date.now()): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
+
+const pickRandom = <T,>(items: T[]): T | undefined => items[Math.floor(Math.random() * items.length)];
+
+interface Ringing {
+  startedAt: number;
+  tried: Set<string>;
+}
+
+/**
+ * A daily wake-up alarm. When it rings it asks the app to play a station with
+ * a volume ramp; if that stream fails soon after, another favorite (or a
+ * popular station) takes over.
+ */
+export const useAlarm = (favorites: Station[], onRing: (station: Station) => void) => {
+  const [settings, setSettings] = usePersistentState('alarm');
+  const [ringing, setRinging] = useState<Ringing | null>(null);
+  const [nextAt, setNextAt] = useState<number | null>(() => settings.enabled ? getNextAlarmAt(settings.time) : null);
+  const favoritesRef = useRef(favorites);
+  favoritesRef.current = favorites;
+  const onRingRef = useRef(onRing);
+  onRingRef.current = onRing;
+
+  const chooseStation = useCallback(async (tried: Set<string>, preferred: string | null): Promise<Station | null> => {
+    const candidates = favoritesRef.current.filter(s => !tried.has(s.stationuuid));
+    const preferredStation = preferred ? candidates.find(s => s.stationuuid === preferred) : undefined;
+    const favorite = preferredStation ?? pickRandom(candidates);
+    if (favorite) return favorite;
+    try {
+      const popular = await radioService.getTopStations(MAX_ATTEMPTS * 2);
+      return popular.find(s => !tried.has(s.stationuuid)) ?? null;
+    } catch (err) {
+      console.error("No fallback station for the alarm", err);
+      return null;
+    }
+  }, []);
+
+  const ring = useCallback(async (preferred: string | null, previous?: Ringing) => {
+    const state: Ringing = previous ?? { startedAt: Date.now(), tried: new Set() };
+    const station = await chooseStation(state.tried, preferred);
+    if (!station) { setRinging(null); return; }
+    state.tried.add(station.stationuuid);
+    setRinging({ ...state });
+    onRingRef.current(station);
+  }, [chooseStation]);
+
+  useEffect(() => {
+    if (!settings.enabled) { setNextAt(null); return; }
+    // Worked out from the settings this run was started for, so turning the alarm on or
+    // moving it shortly after the old time can't ring for the old time
+    let dueAt = getNextAlarmAt(settings.time);
+    let timeout: ReturnType<typeof setTimeout>;
+    const check = () => {
+      const now = Date.now();
+      if (now < dueAt) return;
+      const late = now - dueAt;
+      dueAt = getNextAlarmAt(settings.time, now);
+      setNextAt(dueAt);
+      clearTimeout(timeout);
+      timeout = setTimeout(check, dueAt - now);
+      if (late <= MAX_LATE_MS) ring(settings.stationuuid);
+    };
+    setNextAt(dueAt);
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    timeout = setTimeout(check, dueAt - Date.now());
+    return () => { clearInterval(interval); clearTimeout(timeout); };
+  }, [settings.enabled, settings.time, settings.stationuuid, ring]);
+
+  // Once the ramp and the fallback window are over the alarm is just normal playback
+  useEffect(() => {
+    if (!ringing) return;
+    const endsAt = ringing.startedAt + Math.max(FALLBACK_WINDOW_MS, settings.rampMinutes * 60_000);
+    const timeout = setTimeout(() => setRinging(null), Math.max(0, endsAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [ringing, settings.rampMinutes]);
+
+  /** Call when playback fails; swaps in another station while the alarm is still fresh. */
+  const handlePlaybackError = useCallback(() => {
+    if (!ringing) return;
+    if (Date.now() - ringing.startedAt > FALLBACK_WINDOW_MS || ringing.tried.size >= MAX_ATTEMPTS) {
+      setRinging(null);
+      return;
+    }
+    ring(null, ringing);
+  }, [ringing, ring]);
+
+  const stop = useCallback(() => setRinging(null), []);
+
+  const update = useCallback((patch: Partial<AlarmSettings>) => setSettings(prev => ({ ...prev, ...patch })), [setSettings]);
+
+  // The ramp starts from the first ring so a fallback station doesn't restart it
+  const envelope = useMemo<VolumeEnvelope | null>(() => {
+    if (!ringing || settings.rampMinutes <= 0) return null;
+    return { startsAt: ringing.startedAt, endsAt: ringing.startedAt + settings.rampMinutes * 60_000, from: RAMP_START_VOLUME, to: 1 };
+  }, [ringing, settings.rampMinutes]);
+
+  return { settings, update, nextAt: settings.enabled ? nextAt : null, isRinging: ringing !== null, envelope, handlePlaybackError, stop };
+};
+
+export type Alarm = ReturnType<typeof useAlarm>;
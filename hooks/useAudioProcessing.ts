@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Station, DynamicsMode, EqSettings } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { AudioChain, createAudioChain } from '../services/audioChain';
+import { MAX_LOUDNESS_STATIONS, MAX_STATION_EQS } from '../services/storage';
+import { getEqPreset, withBandGain } from '../utils/equalizer';
+
+/** Level that normalisation aims for, in dB (K-weighted RMS, roughly LUFS). */
+export const TARGET_LOUDNESS_DB = -18;
+/** Normalisation never boosts or cuts by more than this. */
+export const MAX_NORMALIZE_DB = 12;
+const METER_INTERVAL_MS = 500;
+// Quieter readings are pauses or talk-over gaps and would drag the average down
+const SILENCE_DB = -50;
+// Exponential averaging: quick to settle on a new station, then slow enough to ride out dynamics
+const FAST_SAMPLES = 10;
+const FAST_WEIGHT = 0.25;
+const SLOW_WEIGHT = 0.02;
+const SAVE_INTERVAL_MS = 15_000;
+
+const setEntry = <T,>(record: Record<string, T>, key: string, value: T, max: number) => {
+  const { [key]: _previous, ...rest } = record;
+  return Object.fromEntries([...Object.entries(rest), [key, value]].slice(-max));
+};
+
+/**
+ * Owns the EQ, dynamics and loudness normalisation between the player's audio
+ * elements and its analyser. `connect` builds the chain the first time the
+ * player hands it a source; settings apply to it live and are kept across sessions.
+ */
+export const useAudioProcessing = (station: Station | null, isPlaying: boolean) => {
+  const [settings, setSettings] = usePersistentState('audio');
+  const [stationEqs, setStationEqs] = usePersistentState('stationEq');
+  const [loudness, setLoudness] = usePersistentState('loudness');
+  const [chain, setChain] = useState<AudioChain | null>(null);
+  const [normalizeDb, setNormalizeDb] = useState(0);
+  const chainRef = useRef<AudioChain | null>(null);
+
+  const stationId = station?.stationuuid ?? null;
+  const stationEq = stationId ? stationEqs[stationId] : undefined;
+  const eq = stationEq ?? settings.eq;
+
+  const connect = useCallback((ctx: AudioContext, source: AudioNode): AudioNode => {
+    if (!chainRef.current) {
+      chainRef.current = createAudioChain(ctx);
+      setChain(chainRef.current);
+    }
+    source.connect(chainRef.current.input);
+    return chainRef.current.output;
+  }, []);
+
+  useEffect(() => { chain?.setEq(eq.gains); }, [chain, eq]);
+  useEffect(() => { chain?.setDynamics(settings.dynamics); }, [chain, settings.dynamics]);
+  useEffect(() => { chain?.setBypass(settings.bypass); }, [chain, settings.bypass]);
+
+  // Starts from what was measured on the last visit, then keeps measuring while the station plays
+  const loudnessRef = useRef(loudness);
+  loudnessRef.current = loudness;
+  useEffect(() => {
+    if (!chain || !stationId || !settings.normalize) {
+      chain?.setNormalizeGain(0);
+      setNormalizeDb(0);
+      return;
+    }
+    let level: number | undefined = loudnessRef.current[stationId];
+    let samples = level === undefined ? 0 : FAST_SAMPLES;
+    let savedAt = Date.now();
+    const apply = () => {
+      const db = level === undefined ? 0 : Math.max(-MAX_NORMALIZE_DB, Math.min(MAX_NORMALIZE_DB, TARGET_LOUDNESS_DB - level));
+      chain.setNormalizeGain(db);
+      setNormalizeDb(Math.round(db * 10) / 10);
+    };
+    const save = () => {
+      if (level !== undefined) setLoudness(prev => setEntry(prev, stationId, Math.round(level! * 10) / 10, MAX_LOUDNESS_STATIONS));
+    };
+    apply();
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      const db = chain.measureDb();
+      if (!Number.isFinite(db) || db < SILENCE_DB) return;
+      level = level === undefined ? db : level + (db - level) * (samples < FAST_SAMPLES ? FAST_WEIGHT : SLOW_WEIGHT);
+      samples += 1;
+      apply();
+      if (Date.now() - savedAt > SAVE_INTERVAL_MS) { save(); savedAt = Date.now(); }
+    }, METER_INTERVAL_MS);
+    return () => { clearInterval(interval); save(); };
+  }, [chain, stationId, settings.normalize, isPlaying, setLoudness]);
+
+  /** Edits go to the station's own EQ when it has one, otherwise to the shared one. */
+  const updateEq = useCallback((update: (eq: EqSettings) => EqSettings) => {
+    if (stationId && stationEqs[stationId]) {
+      setStationEqs(prev => ({ ...prev, [stationId]: update(prev[stationId] ?? eq) }));
+    } else {
+      setSettings(prev => ({ ...prev, eq: update(prev.eq) }));
+    }
+  }, [stationId, stationEqs, eq, setStationEqs, setSettings]);
+
+  const setBandGain = useCallback((band: number, db: number) => updateEq(current => withBandGain(current, band, db)), [updateEq]);
+
+  const applyPreset = useCallback((id: string) => {
+    const preset = getEqPreset(id);
+    if (preset) updateEq(() => ({ preset: preset.id, gains: [...preset.gains] }));
+  }, [updateEq]);
+
+  const saveEqForStation = useCallback(() => {
+    if (stationId) setStationEqs(prev => setEntry(prev, stationId, eq, MAX_STATION_EQS));
+  }, [stationId, eq, setStationEqs]);
+
+  const clearStationEq = useCallback(() => {
+    if (!stationId) return;
+    setStationEqs(prev => {
+      const { [stationId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, [stationId, setStationEqs]);
+
+  return {
+    settings,
+    eq,
+    hasStationEq: stationEq !== undefined,
+    /** Gain normalisation currently applies, in dB. */
+    normalizeDb,
+    isActive: chain !== null,
+    connect,
+    setBandGain,
+    applyPreset,
+    saveEqForStation,
+    clearStationEq,
+    setBypass: useCallback((bypass: boolean) => setSettings(prev => ({ ...prev, bypass })), [setSettings]),
+    setDynamics: useCallback((dynamics: DynamicsMode) => setSettings(prev => ({ ...prev, dynamics })), [setSettings]),
+    setNormalize: useCallback((normalize: boolean) => setSettings(prev => ({ ...prev, normalize })), [setSettings]),
+  };
+};
+
+export type AudioProcessing = ReturnType<typeof useAudioProcessing>;
@@ -0,0 +1,64 @@
+import { useCallback } from 'react';
+import { FavoriteCollection } from '../types';
+import { usePersistentState } from './usePersistentState';
+
+/** Returns a copy of `list` with the item at `from` moved to index `to`. */
+export const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, item);
+  return next;
+};
+
+const createId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useCollections = () => {
+  const [collections, setCollections] = usePersistentState('collections');
+
+  const update = useCallback((id: string, patch: (c: FavoriteCollection) => FavoriteCollection) => {
+    setCollections(prev => prev.map(c => c.id === id ? patch(c) : c));
+  }, [setCollections]);
+
+  const createCollection = useCallback((name: string, stationIds: string[] = []) => {
+    const collection: FavoriteCollection = { id: createId(), name: name.trim() || 'Untitled', stationIds, createdAt: Date.now() };
+    setCollections(prev => [...prev, collection]);
+    return collection.id;
+  }, [setCollections]);
+
+  const renameCollection = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    update(id, c => ({ ...c, name: name.trim() }));
+  }, [update]);
+
+  const deleteCollection = useCallback((id: string) => {
+    setCollections(prev => prev.filter(c => c.id !== id));
+  }, [setCollections]);
+
+  const toggleStation = useCallback((id: string, stationuuid: string) => {
+    update(id, c => ({
+      ...c,
+      stationIds: c.stationIds.includes(stationuuid) ? c.stationIds.filter(s => s !== stationuuid) : [...c.stationIds, stationuuid]
+    }));
+  }, [update]);
+
+  const reorderCollection = useCallback((id: string, from: number, to: number) => {
+    update(id, c => ({ ...c, stationIds: moveItem(c.stationIds, from, to) }));
+  }, [update]);
+
+  /** Drops a station from every collection, e.g. when it is unfavorited. */
+  const removeStationEverywhere = useCallback((stationuuid: string) => {
+    setCollections(prev => prev.map(c => c.stationIds.includes(stationuuid) ? { ...c, stationIds: c.stationIds.filter(s => s !== stationuuid) } : c));
+  }, [setCollections]);
+
+  /** Points collection entries at new station ids, e.g. after an import replaced a favorite. */
+  const replaceStationIds = useCallback((replacements: Map<string, string>) => {
+    if (replacements.size === 0) return;
+    setCollections(prev => prev.map(c => ({
+      ...c,
+      stationIds: Array.from(new Set(c.stationIds.map(id => replacements.get(id) ?? id)))
+    })));
+  }, [setCollections]);
+
+  return { collections, createCollection, renameCollection, deleteCollection, toggleStation, reorderCollection, removeStationEverywhere, replaceStationIds };
+};
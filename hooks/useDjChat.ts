@@ -0,0 +1,111 @@
+import { useState, useCallback, useRef } from 'react';
+import { DjConversation, DjTurn, GeminiRecommendation } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { geminiService } from '../services/geminiService';
+import { MAX_DJ_CONVERSATIONS, MAX_DJ_TURNS } from '../services/storage';
+
+const createId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** The turns that led up to `turnId`, inclusive; the context a new prompt continues from. */
+const turnsUpTo = (conversation: DjConversation | undefined, turnId: string | null) => {
+  if (!conversation || !turnId) return [];
+  const index = conversation.turns.findIndex(t => t.id === turnId);
+  return index === -1 ? conversation.turns : conversation.turns.slice(0, index + 1);
+};
+
+/**
+ * The AI DJ: a saved, multi-turn conversation with Gemini that refines the
+ * recommendation step by step. Every recommendation it settles on, whether new
+ * or an earlier turn picked again, is handed to `onRecommendation`.
+ */
+export const useDjChat = (onRecommendation: (recommendation: GeminiRecommendation) => void) => {
+  const [conversations, setConversations] = usePersistentState('djConversations');
+  // Null starts a new conversation with the next prompt
+  const [conversationId, setConversationId] = useState<string | null>(() => conversations[0]?.id ?? null);
+  const [isThinking, setIsThinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onRecommendationRef = useRef(onRecommendation);
+  onRecommendationRef.current = onRecommendation;
+  const conversationIdRef = useRef(conversationId);
+  conversationIdRef.current = conversationId;
+
+  const conversation = conversations.find(c => c.id === conversationId);
+
+  // Touching a conversation moves it to the front, which is also what the size limit trims by.
+  // An update returning null leaves the list as it is.
+  const updateConversation = useCallback((id: string, update: (conversation: DjConversation | undefined) => DjConversation | null) => {
+    setConversations(prev => {
+      const updated = update(prev.find(c => c.id === id));
+      return updated ? [updated, ...prev.filter(c => c.id !== id)].slice(0, MAX_DJ_CONVERSATIONS) : prev;
+    });
+  }, [setConversations]);
+
+  /**
+   * Asks for a refinement of the active turn. Sent from an earlier turn, it
+   * branches off into a new conversation so the later turns are kept.
+   */
+  const send = useCallback(async (prompt: string) => {
+    const text = prompt.trim();
+    if (!text || isThinking) return;
+    const history = turnsUpTo(conversation, conversation?.activeTurnId ?? null);
+    const branches = !!conversation && history.length < conversation.turns.length;
+    const continues = !!conversation && !branches;
+    const id = continues ? conversation.id : createId();
+    const title = branches ? `${conversation.title} (branch)` : conversation?.title ?? text;
+    setConversationId(id);
+    setIsThinking(true);
+    setError(null);
+    try {
+      const recommendation = await geminiService.refineRecommendation(history.map(({ prompt, recommendation }) => ({ prompt, recommendation })), text);
+      if (!recommendation) { setError("The DJ didn't come up with anything. Try putting it differently."); return; }
+      const turn: DjTurn = { id: createId(), prompt: text, recommendation, at: Date.now() };
+      // A conversation deleted while the DJ was thinking stays deleted
+      updateConversation(id, existing => continues && !existing ? null : {
+        id,
+        title: existing?.title ?? title,
+        turns: [...history, turn].slice(-MAX_DJ_TURNS),
+        activeTurnId: turn.id,
+        updatedAt: turn.at,
+      });
+      // Only steer the station list if the user is still looking at this conversation
+      if (conversationIdRef.current === id) onRecommendationRef.current(recommendation);
+    } catch (err) {
+      console.error("AI DJ request failed", err);
+      setError('The DJ is unreachable right now.');
+    } finally {
+      setIsThinking(false);
+    }
+  }, [conversation, isThinking, updateConversation]);
+
+  /** Goes back to an earlier turn: its recommendation shows again and the next prompt continues from there. */
+  const selectTurn = useCallback((turnId: string) => {
+    const turn = conversation?.turns.find(t => t.id === turnId);
+    if (!conversation || !turn) return;
+    updateConversation(conversation.id, existing => existing ? { ...existing, activeTurnId: turnId, updatedAt: Date.now() } : null);
+    onRecommendationRef.current(turn.recommendation);
+  }, [conversation, updateConversation]);
+
+  /** Resumes a saved conversation where it was left. */
+  const openConversation = useCallback((id: string) => {
+    const saved = conversations.find(c => c.id === id);
+    if (!saved) return;
+    setConversationId(id);
+    setError(null);
+    const turn = saved.turns.find(t => t.id === saved.activeTurnId);
+    if (turn) onRecommendationRef.current(turn.recommendation);
+  }, [conversations]);
+
+  const startNew = useCallback(() => {
+    setConversationId(null);
+    setError(null);
+  }, []);
+
+  const deleteConversation = useCallback((id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (id === conversationId) setConversationId(null);
+  }, [conversationId, setConversations]);
+
+  return { conversations, conversation, isThinking, error, send, selectTurn, openConversation, startNew, deleteConversation };
+};
+
+export type DjChat = ReturnType<typeof useDjChat>;
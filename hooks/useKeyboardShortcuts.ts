@@ -0,0 +1,24 @@
+import { useEffect, useRef } from 'react';
+import { ShortcutId, matchShortcut } from '../utils/shortcuts';
+
+/**
+ * Runs the given handlers for their shortcuts anywhere on the page. Several
+ * components can each claim their own shortcuts; keys without a handler here
+ * pass through untouched.
+ */
+export const useKeyboardShortcuts = (handlers: Partial<Record<ShortcutId, () => void>>) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const id = matchShortcut(event);
+      const handler = id ? handlersRef.current[id] : undefined;
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { Station, ListeningSession } from '../types';
+import { MAX_HISTORY } from '../services/storage';
+import { usePersistentState } from './usePersistentState';
+
+// Anything shorter is zapping past a station rather than listening to it
+const MIN_SESSION_MS = 10_000;
+// The open session is saved periodically so closing the tab loses at most this much
+const CHECKPOINT_MS = 15_000;
+
+const createSessionId = () => crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toSession = (station: Station, startedAt: number): ListeningSession => ({
+  id: createSessionId(),
+  stationuuid: station.stationuuid,
+  stationName: station.name,
+  favicon: station.favicon,
+  country: station.country,
+  countrycode: station.countrycode,
+  tags: station.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean),
+  language: station.language,
+  startedAt,
+  durationMs: 0,
+});
+
+/** Logs a session for every stretch the given station is heard and exposes the log. */
+export const useListeningLog = (station: Station | null, isAudible: boolean) => {
+  const [history, setHistory] = usePersistentState('history');
+  // The station object is replaced whenever its counters change; only a new uuid starts a new session
+  const stationRef = useRef(station);
+  stationRef.current = station;
+  const stationId = station?.stationuuid ?? null;
+
+  useEffect(() => {
+    const current = stationRef.current;
+    if (!current || !isAudible) return;
+    const session = toSession(current, Date.now());
+    let saved = false;
+
+    const checkpoint = () => {
+      const durationMs = Date.now() - session.startedAt;
+      if (durationMs < MIN_SESSION_MS) return;
+      setHistory(prev => saved
+        ? prev.map(s => s.id === session.id ? { ...s, durationMs } : s)
+        : [...prev, { ...session, durationMs }].slice(-MAX_HISTORY));
+      saved = true;
+    };
+
+    const timer = setInterval(checkpoint, CHECKPOINT_MS);
+    window.addEventListener('pagehide', checkpoint);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', checkpoint);
+      checkpoint();
+    };
+  }, [stationId, isAudible, setHistory]);
+
+  /** Removes sessions that started within [from, to); either bound may be open. */
+  const clearRange = useCallback((from: number | null, to: number | null) => {
+    setHistory(prev => prev.filter(s => (from !== null && s.startedAt < from) || (to !== null && s.startedAt >= to)));
+  }, [setHistory]);
+
+  return { history, clearRange };
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { Station, TrackPlay } from '../types';
+
+interface MediaSessionOptions {
+  station: Station | null;
+  track: TrackPlay | null;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onSkip?: (delta: 1 | -1) => void;
+}
+
+const ACTIONS: MediaSessionAction[] = ['play', 'pause', 'stop', 'nexttrack', 'previoustrack', 'seekbackward', 'seekforward'];
+
+/**
+ * Publishes the station (and the song on air, when known) to the OS media
+ * controls, so media keys, lock screens and headsets can drive the player.
+ */
+export const useMediaSession = ({ station, track, isPlaying, onTogglePlay, onSkip }: MediaSessionOptions) => {
+  const stateRef = useRef({ isPlaying, onTogglePlay, onSkip });
+  stateRef.current = { isPlaying, onTogglePlay, onSkip };
+  const supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+  const canSkip = onSkip !== undefined;
+  const hasStation = station !== null;
+
+  useEffect(() => {
+    if (!supported || !station) return;
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: track?.title ?? station.name,
+      artist: track ? [track.artist, station.name].filter(Boolean).join(' · ') : station.country,
+      album: 'VoxWorld',
+      artwork: station.favicon ? [{ src: station.favicon }] : [],
+    });
+  }, [supported, station, track]);
+
+  useEffect(() => {
+    if (supported) navigator.mediaSession.playbackState = station ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [supported, station, isPlaying]);
+
+  useEffect(() => {
+    if (!supported || !hasStation) return;
+    const set = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+      // Browsers throw for actions they don't know
+      try { navigator.mediaSession.setActionHandler(action, handler); } catch { /* unsupported action */ }
+    };
+    const play = () => { if (!stateRef.current.isPlaying) stateRef.current.onTogglePlay(); };
+    const pause = () => { if (stateRef.current.isPlaying) stateRef.current.onTogglePlay(); };
+    set('play', play);
+    set('pause', pause);
+    set('stop', pause);
+    set('nexttrack', canSkip ? () => stateRef.current.onSkip?.(1) : null);
+    set('previoustrack', canSkip ? () => stateRef.current.onSkip?.(-1) : null);
+    // Live radio can't seek; without handlers the OS hides those buttons
+    set('seekbackward', null);
+    set('seekforward', null);
+    return () => ACTIONS.forEach(action => set(action, null));
+  }, [supported, hasStation, canSkip]);
+
+  useEffect(() => () => {
+    if (supported) navigator.mediaSession.metadata = null;
+  }, [supported]);
+};
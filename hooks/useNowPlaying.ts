@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Station, TrackPlay } from '../types';
+import { MAX_TRACKS_PER_STATION, MAX_TRACK_STATIONS } from '../services/storage';
+import { nowPlayingService } from '../services/nowPlayingService';
+import { parseTrackTitle } from '../utils/streamMetadata';
+import { usePersistentState } from './usePersistentState';
+
+const isHls = (station: Station) => station.url.includes('.m3u8') || station.url_resolved?.includes('.m3u8');
+
+/**
+ * The song currently announced by the playing station, plus the station's
+ * recent tracks. Icecast/Shoutcast titles arrive through the ICY proxy; HLS
+ * streams carry theirs as timed ID3 tags, which the player hands to `reportTitle`.
+ */
+export const useNowPlaying = (station: Station | null, isPlaying: boolean) => {
+  const [track, setTrack] = useState<TrackPlay | null>(null);
+  const [tracks, setTracks] = usePersistentState('tracks');
+  const stationId = station?.stationuuid ?? null;
+  const streamUrl = station && !isHls(station) ? station.url_resolved || station.url : null;
+
+  const reportTitle = useCallback((raw: string) => {
+    if (!stationId) return;
+    const next = parseTrackTitle(raw);
+    setTrack(prev => prev?.raw === next?.raw ? prev : next);
+    if (!next) return;
+    setTracks(prev => {
+      const list = prev[stationId] ?? [];
+      if (list[0]?.raw === next.raw) return prev;
+      const others = Object.entries(prev).filter(([uuid]) => uuid !== stationId).slice(0, MAX_TRACK_STATIONS - 1);
+      // Newest station first, so the validator's cap drops the ones heard longest ago
+      return Object.fromEntries([[stationId, [next, ...list].slice(0, MAX_TRACKS_PER_STATION)], ...others]);
+    });
+  }, [stationId, setTracks]);
+
+  useEffect(() => { setTrack(null); }, [stationId, isPlaying]);
+
+  useEffect(() => {
+    if (!streamUrl || !isPlaying) return;
+    return nowPlayingService.subscribe(streamUrl, reportTitle);
+  }, [streamUrl, isPlaying, reportTitle]);
+
+  return { track, recentTracks: stationId ? tracks[stationId] ?? [] : [], reportTitle };
+};
@@ -0,0 +1,25 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storage, StoreKey, StoreSchema, StorageStatus } from '../services/storage';
+
+/**
+ * useState backed by one slice of the persisted store. Updates are saved
+ * immediately and changes made in other tabs flow back in.
+ */
+export const usePersistentState = <K extends StoreKey,>(key: K) => {
+  const [value, setValue] = useState<StoreSchema[K]>(() => storage.read(key));
+
+  useEffect(() => storage.subscribe(key, setValue), [key]);
+
+  const update = useCallback((next: StoreSchema[K] | ((prev: StoreSchema[K]) => StoreSchema[K])) => {
+    const resolved = typeof next === 'function' ? (next as (prev: StoreSchema[K]) => StoreSchema[K])(storage.read(key)) : next;
+    storage.write(key, resolved);
+  }, [key]);
+
+  return [value, update] as const;
+};
+
+export const useStorageStatus = (): StorageStatus => {
+  const [status, setStatus] = useState<StorageStatus>(() => storage.getStatus());
+  useEffect(() => storage.subscribeStatus(setStatus), []);
+  return status;
+};
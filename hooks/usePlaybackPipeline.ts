@@ -0,0 +1,351 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import Hls from 'hls.js';
+import { Station } from '../types';
+import { MAX_STRATEGY_STATIONS } from '../services/storage';
+import { relayService } from '../services/relayService';
+import { runPlaybackPipeline, stopPlayback, PlaybackAttempt } from '../services/playbackPipeline';
+import { planAttempts, StrategyId } from '../utils/playbackStrategies';
+import { usePersistentState } from './usePersistentState';
+
+export type PlaybackErrorType = 'NETWORK' | 'DECODE' | 'ACCESS' | 'OFFLINE' | 'UNKNOWN';
+
+export interface PlaybackError {
+  message: string;
+  type: PlaybackErrorType;
+}
+
+export interface PlaybackDiagnostics {
+  stationuuid: string;
+  stationName: string;
+  status: 'connecting' | 'playing' | 'failed';
+  attempts: PlaybackAttempt[];
+  /** The strategy now playing, or the remembered one tried first. */
+  strategy: StrategyId | null;
+}
+
+// A stream that drops mid-play gets one fresh run through the pipeline before giving up
+const MAX_RECOVERIES = 1;
+
+const describeFailure = (attempts: PlaybackAttempt[], station: Station): PlaybackError => {
+  if (attempts.some(a => a.outcome === 'blocked')) return { message: "Autoplay blocked. Press play to listen.", type: 'ACCESS' };
+  const withCode = [...attempts].reverse().find(a => a.mediaErrorCode !== null);
+  if (window.location.protocol === 'https:' && (station.url_resolved || station.url).startsWith('http://') && !attempts.some(a => a.strategy === 'relay')) {
+    return { message: "Security Block: Insecure stream.", type: 'ACCESS' };
+  }
+  if (withCode?.mediaErrorCode === 2) return { message: "Network error: Connection failed.", type: 'NETWORK' };
+  if (withCode?.mediaErrorCode === 3) return { message: "Format unsupported.", type: 'DECODE' };
+  if (withCode) return { message: "Station offline or format incompatible.", type: 'OFFLINE' };
+  return { message: "This frequency is unreachable.", type: 'UNKNOWN' };
+};
+
+/** A station switch that never produced sound; the previous station kept playing. */
+export interface SwitchFailure {
+  stationName: string;
+  error: PlaybackError;
+  at: number;
+}
+
+export type AudioDecks = readonly [RefObject<HTMLAudioElement | null>, RefObject<HTMLAudioElement | null>];
+
+interface PipelineHookOptions {
+  /** Length of the crossfade between stations; 0 swaps them as soon as the new one plays. */
+  crossfadeMs?: number;
+  configureHls?: (hls: Hls) => void;
+  /** Called with the station still playing after a switch away from it failed. */
+  onSwitchFailed?: (kept: Station) => void;
+  /**
+   * A second pair of elements that is never routed through Web Audio. Streams
+   * only reachable without CORS play here, since a graph would mute them;
+   * without it they share `decks` with everything else.
+   */
+  plainDecks?: AudioDecks;
+}
+
+interface DeckState {
+  hls: Hls | null;
+  detach: (() => void) | null;
+  /** Whether the deck plays on its element from `plainDecks`. */
+  plain: boolean;
+}
+
+const FADE_STEP_MS = 50;
+const idleDeck = (): DeckState => ({ hls: null, detach: null, plain: false });
+
+/**
+ * Plays the station by working through the named playback strategies, starting
+ * with the one that last worked for it. Playback alternates between two audio
+ * elements ("decks"): the next station buffers on the idle deck while the
+ * current one keeps playing, and is crossfaded in once it produces sound. If
+ * it never does, the current station simply carries on.
+ */
+export const usePlaybackPipeline = (
+  decks: AudioDecks,
+  station: Station | null,
+  isPlaying: boolean,
+  { crossfadeMs = 0, configureHls, onSwitchFailed, plainDecks }: PipelineHookOptions = {}
+) => {
+  const [strategies, setStrategies] = usePersistentState('strategies');
+  const [diagnostics, setDiagnostics] = useState<PlaybackDiagnostics | null>(null);
+  const [error, setError] = useState<PlaybackError | null>(null);
+  const [switchFailure, setSwitchFailure] = useState<SwitchFailure | null>(null);
+  const [activeDeck, setActiveDeck] = useState(0);
+  const [activePlain, setActivePlain] = useState(false);
+  const [runId, setRunId] = useState(0);
+  const recoveriesRef = useRef(0);
+  // Snapshot refreshes replace the station object; only a new uuid restarts playback
+  const stationRef = useRef(station);
+  stationRef.current = station;
+  const diagnosticsRef = useRef(diagnostics);
+  diagnosticsRef.current = diagnostics;
+  const strategiesRef = useRef(strategies);
+  strategiesRef.current = strategies;
+  const decksRef = useRef(decks);
+  decksRef.current = decks;
+  const plainDecksRef = useRef(plainDecks);
+  plainDecksRef.current = plainDecks;
+  const optionsRef = useRef({ crossfadeMs, configureHls, onSwitchFailed });
+  optionsRef.current = { crossfadeMs, configureHls, onSwitchFailed };
+  const stationId = station?.stationuuid ?? null;
+
+  const activeDeckRef = useRef(0);
+  /** The station audible on the active deck, if any. */
+  const playingRef = useRef<Station | null>(null);
+  const deckStatesRef = useRef<DeckState[]>([idleDeck(), idleDeck()]);
+  // Each deck's share of the output level; the level itself is the volume slider times any envelope
+  const mixRef = useRef([1, 0]);
+  const levelRef = useRef(1);
+  /** Jumps a running crossfade to its end. */
+  const finishFadeRef = useRef<(() => void) | null>(null);
+
+  /** Both elements of a deck; only the one its state points at ever holds a stream. */
+  const elementsOf = useCallback((index: number) => (
+    [decksRef.current[index].current, plainDecksRef.current?.[index].current].filter((audio): audio is HTMLAudioElement => !!audio)
+  ), []);
+
+  const applyVolume = useCallback(() => {
+    [0, 1].forEach(i => elementsOf(i).forEach(audio => {
+      audio.volume = Math.min(1, Math.max(0, levelRef.current * mixRef.current[i]));
+    }));
+  }, [elementsOf]);
+
+  const setMix = useCallback((audible: number, share = 1) => {
+    const mix = [0, 0];
+    mix[audible] = share;
+    mixRef.current = mix;
+    applyVolume();
+  }, [applyVolume]);
+
+  const stopDeck = useCallback((index: number) => {
+    const state = deckStatesRef.current[index];
+    state.detach?.();
+    state.hls?.destroy();
+    deckStatesRef.current[index] = idleDeck();
+    elementsOf(index).forEach(stopPlayback);
+  }, [elementsOf]);
+
+  const crossfade = useCallback((from: number, to: number, durationMs: number) => {
+    const startedAt = performance.now();
+    const finish = () => {
+      clearInterval(timer);
+      finishFadeRef.current = null;
+      setMix(to);
+      stopDeck(from);
+    };
+    const step = () => {
+      const progress = (performance.now() - startedAt) / durationMs;
+      if (progress >= 1) { finish(); return; }
+      // Equal-power curves keep the overall loudness steady through the middle of the fade
+      const mix = [0, 0];
+      mix[to] = Math.sin(progress * Math.PI / 2);
+      mix[from] = Math.cos(progress * Math.PI / 2);
+      mixRef.current = mix;
+      applyVolume();
+    };
+    const timer = setInterval(step, FADE_STEP_MS);
+    finishFadeRef.current = finish;
+    step();
+  }, [applyVolume, setMix, stopDeck]);
+
+  useEffect(() => { recoveriesRef.current = 0; setError(null); }, [stationId]);
+
+  useEffect(() => {
+    const current = stationRef.current;
+    if (!current) return;
+    if (!isPlaying) {
+      finishFadeRef.current?.();
+      stopDeck(0);
+      stopDeck(1);
+      playingRef.current = null;
+      return;
+    }
+    // Typically a failed switch handing the station that kept playing back
+    if (playingRef.current?.stationuuid === current.stationuuid) return;
+
+    finishFadeRef.current?.();
+    const previous = playingRef.current;
+    const from = activeDeckRef.current;
+    const target = previous ? 1 - from : from;
+    const graphAudio = decksRef.current[target].current;
+    const plainAudio = plainDecksRef.current?.[target].current ?? null;
+    if (!graphAudio) return;
+    if (previous) {
+      mixRef.current = mixRef.current.map((share, i) => i === target ? 0 : share);
+      applyVolume();
+    } else {
+      stopDeck(from);
+      setMix(target);
+    }
+
+    const controller = new AbortController();
+    let committed = false;
+    // What the kept station reports again if this switch never plays
+    const keptDiagnostics = previous && diagnosticsRef.current?.stationuuid === previous.stationuuid ? diagnosticsRef.current : null;
+    const preferred = strategiesRef.current[current.stationuuid] ?? null;
+    const update = (patch: Partial<PlaybackDiagnostics>) => setDiagnostics(prev => prev && prev.stationuuid === current.stationuuid ? { ...prev, ...patch } : prev);
+
+    setError(null);
+    setDiagnostics({ stationuuid: current.stationuuid, stationName: current.name, status: 'connecting', attempts: [], strategy: preferred });
+
+    const onLost = () => {
+      if (playingRef.current !== current || activeDeckRef.current !== target) return;
+      playingRef.current = null;
+      if (recoveriesRef.current < MAX_RECOVERIES) {
+        recoveriesRef.current += 1;
+        setRunId(id => id + 1);
+        return;
+      }
+      update({ status: 'failed' });
+      setError({ message: "Signal lost: the stream stopped.", type: 'NETWORK' });
+    };
+
+    relayService.isAvailable().then(relayAvailable => {
+      if (controller.signal.aborted) return null;
+      const plan = planAttempts(current, {
+        securePage: window.location.protocol === 'https:',
+        relayAvailable,
+        relayUrl: relayService.getStreamUrl,
+        now: Date.now(),
+      }, preferred);
+      const run = (audio: HTMLAudioElement, attempts: typeof plan) => runPlaybackPipeline(audio, attempts, {
+        signal: controller.signal,
+        onAttempt: attempt => setDiagnostics(prev => prev && prev.stationuuid === current.stationuuid ? { ...prev, attempts: [...prev.attempts, attempt] } : prev),
+        configureHls: instance => optionsRef.current.configureHls?.(instance),
+      }).then(result => ({ ...result, audio }));
+      if (!plainAudio) return run(graphAudio, plan);
+      // CORS attempts first, on the element the graph reads; the rest only play on the plain one
+      const withoutCors = plan.filter(attempt => !attempt.strategy.cors);
+      return run(graphAudio, plan.filter(attempt => attempt.strategy.cors)).then(first => {
+        if (first.winner || controller.signal.aborted || withoutCors.length === 0 || first.attempts.some(a => a.outcome === 'blocked')) return first;
+        return run(plainAudio, withoutCors).then(second => ({ ...second, attempts: [...first.attempts, ...second.attempts] }));
+      });
+    }).then(result => {
+      if (!result) return;
+      if (controller.signal.aborted) { result.hls?.destroy(); return; }
+      const { audio } = result;
+      if (!result.winner) {
+        update({ status: 'failed' });
+        const failure = describeFailure(result.attempts, current);
+        if (previous && playingRef.current === previous) {
+          setDiagnostics(keptDiagnostics);
+          setSwitchFailure({ stationName: current.name, error: failure, at: Date.now() });
+          optionsRef.current.onSwitchFailed?.(previous);
+        } else {
+          setError(failure);
+        }
+        return;
+      }
+
+      committed = true;
+      const winner = result.winner.strategy.id;
+      audio.addEventListener('error', onLost);
+      audio.addEventListener('ended', onLost);
+      result.hls?.on(Hls.Events.ERROR, (_event, data) => { if (data.fatal) onLost(); });
+      deckStatesRef.current[target] = {
+        hls: result.hls,
+        detach: () => {
+          audio.removeEventListener('error', onLost);
+          audio.removeEventListener('ended', onLost);
+        },
+        plain: audio === plainAudio,
+      };
+      playingRef.current = current;
+      activeDeckRef.current = target;
+      setActiveDeck(target);
+      setActivePlain(audio === plainAudio);
+      setSwitchFailure(null);
+      update({ status: 'playing', strategy: winner });
+
+      if (previous) {
+        // The outgoing station may still fail while it fades; that must not trigger a recovery
+        deckStatesRef.current[from].detach?.();
+        deckStatesRef.current[from].detach = null;
+        const fadeMs = optionsRef.current.crossfadeMs;
+        if (fadeMs > 0) crossfade(from, target, fadeMs);
+        else { setMix(target); stopDeck(from); }
+      }
+
+      // A stream fetched without CORS plays as silence once Web Audio is involved, so it is never worth leading with
+      if (!result.winner.strategy.cors) {
+        if (strategiesRef.current[current.stationuuid]) {
+          setStrategies(prev => {
+            const { [current.stationuuid]: _dropped, ...rest } = prev;
+            return rest;
+          });
+        }
+      } else if (strategiesRef.current[current.stationuuid] !== winner) {
+        setStrategies(prev => {
+          const { [current.stationuuid]: _previous, ...rest } = prev;
+          return Object.fromEntries([...Object.entries(rest), [current.stationuuid, winner]].slice(-MAX_STRATEGY_STATIONS));
+        });
+      }
+    });
+
+    return () => {
+      controller.abort();
+      // A switch still buffering is dropped; whatever already plays is left to the next run
+      if (!committed && previous) stopDeck(target);
+    };
+  }, [stationId, isPlaying, runId, applyVolume, setMix, stopDeck, crossfade, setStrategies]);
+
+  useEffect(() => () => {
+    finishFadeRef.current?.();
+    stopDeck(0);
+    stopDeck(1);
+  }, [stopDeck]);
+
+  /** Sets the output level (volume slider times any fade envelope) for whichever deck is audible. */
+  const setLevel = useCallback((level: number) => {
+    levelRef.current = level;
+    applyVolume();
+  }, [applyVolume]);
+
+  const retry = useCallback(() => {
+    recoveriesRef.current = 0;
+    setError(null);
+    setRunId(id => id + 1);
+  }, []);
+
+  /** Drops the remembered strategy so the next run starts from the top of the list. */
+  const forgetStrategy = useCallback(() => {
+    if (!stationId) return;
+    setStrategies(prev => {
+      const { [stationId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, [stationId, setStrategies]);
+
+  return {
+    error,
+    diagnostics: diagnostics?.stationuuid === stationId ? diagnostics : null,
+    isConnecting: diagnostics?.stationuuid === stationId && diagnostics.status === 'connecting',
+    rememberedStrategy: stationId ? strategies[stationId] ?? null : null,
+    /** Index into `decks` of the element that is (or will be) heard. */
+    activeDeck,
+    /** Whether that deck plays on its `plainDecks` element instead. */
+    activePlain,
+    switchFailure,
+    setLevel,
+    retry,
+    forgetStrategy,
+  };
+};
@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import { Station } from '../types';
+import { recordingStore } from '../services/recordingStore';
+import { toSafeFileName } from '../utils/download';
+
+export type RecorderStatus = 'idle' | 'recording' | 'saving';
+
+// Opus is what Chrome and Firefox record natively; Safari only does AAC in mp4
+const MIME_TYPES: [string, string][] = [
+  ['audio/webm;codecs=opus', 'webm'],
+  ['audio/ogg;codecs=opus', 'ogg'],
+  ['audio/mp4', 'm4a'],
+];
+const CHUNK_MS = 1_000;
+
+const pickMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find(([type]) => MediaRecorder.isTypeSupported(type));
+
+const timestamp = (at: number) => {
+  const date = new Date(at);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+};
+
+export const isRecordingSupported = () => pickMimeType() !== undefined;
+
+/** Recording length as a clock, e.g. "4:07" or "1:02:33". */
+export const formatClock = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours ? `${hours}:${pad(minutes)}:${pad(totalSeconds % 60)}` : `${minutes}:${pad(totalSeconds % 60)}`;
+};
+
+/**
+ * Records whatever the player's audio graph outputs. `canRecord` goes false
+ * when the stream stops or turns CORS-tainted (the graph then only carries
+ * silence); a running recording is stopped and saved at that point, as it is
+ * on a station change.
+ */
+export const useRecorder = (
+  audioCtxRef: RefObject<AudioContext | null>,
+  sourceRef: RefObject<AudioNode | null>,
+  station: Station | null,
+  canRecord: boolean
+) => {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [sizeBytes, setSizeBytes] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const recorderRef = useRef<MediaRecorder | null>(null);
+
+  const stop = useCallback(() => {
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  const start = useCallback(() => {
+    const ctx = audioCtxRef.current;
+    const source = sourceRef.current;
+    const format = pickMimeType();
+    if (!station || recorderRef.current) return;
+    if (!format) { setError('This browser cannot record audio.'); return; }
+    if (!ctx || !source) { setError('The audio graph is not ready yet; try again once the stream is playing.'); return; }
+
+    const [mimeType, extension] = format;
+    const destination = ctx.createMediaStreamDestination();
+    source.connect(destination);
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    const began = Date.now();
+    let size = 0;
+
+    recorder.ondataavailable = (event) => {
+      if (!event.data.size) return;
+      chunks.push(event.data);
+      size += event.data.size;
+      setSizeBytes(size);
+    };
+    recorder.onstop = () => {
+      source.disconnect(destination);
+      recorderRef.current = null;
+      setStartedAt(null);
+      if (!size) { setStatus('idle'); return; }
+      setStatus('saving');
+      recordingStore.save({
+        id: `${station.stationuuid}-${began}`,
+        fileName: `${toSafeFileName(station.name) || 'recording'}_${timestamp(began)}.${extension}`,
+        stationuuid: station.stationuuid,
+        stationName: station.name,
+        mimeType,
+        sizeBytes: size,
+        durationMs: Date.now() - began,
+        createdAt: began,
+        blob: new Blob(chunks, { type: mimeType }),
+      })
+        .catch(err => {
+          console.error('Saving the recording failed:', err);
+          setError('The recording could not be saved. The browser may be out of storage space.');
+        })
+        .finally(() => setStatus('idle'));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start(CHUNK_MS);
+    setError(null);
+    setSizeBytes(0);
+    setStartedAt(began);
+    setNow(began);
+    setStatus('recording');
+  }, [audioCtxRef, sourceRef, station]);
+
+  useEffect(() => {
+    if (status !== 'recording') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  useEffect(() => { if (!canRecord) stop(); }, [canRecord, stop]);
+  useEffect(() => stop, [station?.stationuuid, stop]);
+
+  return {
+    status,
+    elapsedMs: startedAt !== null ? now - startedAt : 0,
+    sizeBytes,
+    error,
+    start,
+    stop,
+  };
+};
+
+export type Recorder = ReturnType<typeof useRecorder>;
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Station } from '../types';
+import { radioService, StationSearchParams } from '../services/radioService';
+import { isAbortError } from '../services/apiErrors';
+import { findSimilarStations, splitList, SimilarityMatch } from '../utils/stationSimilarity';
+
+const MAX_TAG_QUERIES = 3;
+const CANDIDATES_PER_QUERY = 40;
+const MAX_RESULTS = 30;
+
+// One directory search per leading tag, plus the language (narrowed by the top tag) and the country
+const candidateQueries = (station: Station): StationSearchParams[] => {
+  const tags = splitList(station.tags).slice(0, MAX_TAG_QUERIES);
+  const [language] = splitList(station.language);
+  const queries: StationSearchParams[] = tags.map(tag => ({ tag }));
+  if (language) queries.push(tags[0] ? { language, tag: tags[0] } : { language });
+  if (station.countrycode) queries.push({ countrycode: station.countrycode });
+  return queries.map(query => ({ ...query, limit: CANDIDATES_PER_QUERY }));
+};
+
+/** Stations like `station`, fetched from the directory and ranked locally; no AI involved. */
+export const useSimilarStations = (station: Station | null) => {
+  const [matches, setMatches] = useState<SimilarityMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    setMatches([]);
+    setError(null);
+    if (!station) return;
+    const controller = new AbortController();
+    setLoading(true);
+    Promise.allSettled(candidateQueries(station).map(query => radioService.searchStations(query, { signal: controller.signal })))
+      .then(results => {
+        if (controller.signal.aborted) return;
+        const candidates = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
+        // Some searches failing just means fewer candidates; only report it when nothing came back
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected' && !isAbortError(result.reason));
+        if (candidates.length === 0 && failure) setError(failure.reason);
+        setMatches(findSimilarStations(station, candidates, undefined, MAX_RESULTS));
+      })
+      .finally(() => { if (!controller.signal.aborted) setLoading(false); });
+    return () => { controller.abort(); setLoading(false); };
+  }, [station, attempt]);
+
+  const retry = useCallback(() => setAttempt(n => n + 1), []);
+
+  return { matches, loading, error, retry };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { VolumeEnvelope } from '../types';
+
+const MAX_FADE_MS = 60_000;
+
+/**
+ * Pauses playback after a set time, fading out over the last minute (or the
+ * last quarter of very short timers). Pausing by hand cancels the timer.
+ */
+export const useSleepTimer = (isPlaying: boolean, onExpire: () => void) => {
+  const [timer, setTimer] = useState<{ startedAt: number; endsAt: number } | null>(null);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    if (!timer) return;
+    const timeout = setTimeout(() => {
+      setTimer(null);
+      onExpireRef.current();
+    }, Math.max(0, timer.endsAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [timer]);
+
+  useEffect(() => { if (!isPlaying) setTimer(null); }, [isPlaying]);
+
+  const start = useCallback((minutes: number) => {
+    const now = Date.now();
+    setTimer({ startedAt: now, endsAt: now + minutes * 60_000 });
+  }, []);
+
+  const cancel = useCallback(() => setTimer(null), []);
+
+  const envelope = useMemo<VolumeEnvelope | null>(() => {
+    if (!timer) return null;
+    const fadeMs = Math.min(MAX_FADE_MS, (timer.endsAt - timer.startedAt) / 4);
+    return { startsAt: timer.endsAt - fadeMs, endsAt: timer.endsAt, from: 1, to: 0 };
+  }, [timer]);
+
+  return { endsAt: timer?.endsAt ?? null, envelope, start, cancel };
+};
+
+export type SleepTimer = ReturnType<typeof useSleepTimer>;
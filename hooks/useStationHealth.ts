@@ -0,0 +1,83 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Station } from '../types';
+import { healthService, StationHealth } from '../services/healthService';
+import { isCustomStation } from '../services/playlistImport';
+
+// Cards just below the fold are checked too, so badges are there by the time they scroll in
+const PROBE_ROOT_MARGIN = '200px';
+
+/**
+ * A station is treated as unreachable once a probe says so, or while radio-browser's own last check failed.
+ * Imported streams were never checked by radio-browser, so until a probe they are unknown.
+ */
+export const isUnreachable = (station: Station, health: StationHealth | undefined) =>
+  health ? !health.reachable : station.lastcheckok === 0 && !isCustomStation(station);
+
+/**
+ * Probes stations as their cards become visible. Attach `observe(station)` as
+ * the card's ref; cards that scroll away before their turn are dropped from
+ * the queue.
+ */
+export const useStationHealth = () => {
+  const [health, setHealth] = useState<Record<string, StationHealth>>({});
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const stationsRef = useRef(new Map<Element, Station>());
+  const pendingRef = useRef(new Map<string, AbortController>());
+  const doneRef = useRef(new Set<string>());
+  const callbacksRef = useRef(new Map<string, (element: Element | null) => (() => void) | undefined>());
+
+  const probe = useCallback((station: Station) => {
+    const id = station.stationuuid;
+    if (doneRef.current.has(id) || pendingRef.current.has(id)) return;
+    const controller = new AbortController();
+    pendingRef.current.set(id, controller);
+    healthService.probe(station, controller.signal)
+      .then(result => {
+        doneRef.current.add(id);
+        setHealth(prev => ({ ...prev, [id]: result }));
+      })
+      .catch(err => { if ((err as Error).name !== 'AbortError') console.warn(`Health check failed for ${station.name}`, err); })
+      .finally(() => { if (pendingRef.current.get(id) === controller) pendingRef.current.delete(id); });
+  }, []);
+
+  const getObserver = useCallback(() => {
+    if (!observerRef.current && typeof IntersectionObserver !== 'undefined') {
+      observerRef.current = new IntersectionObserver((entries) => {
+        entries.forEach(entry => {
+          const station = stationsRef.current.get(entry.target);
+          if (!station) return;
+          if (entry.isIntersecting) probe(station);
+          else pendingRef.current.get(station.stationuuid)?.abort();
+        });
+      }, { rootMargin: PROBE_ROOT_MARGIN });
+    }
+    return observerRef.current;
+  }, [probe]);
+
+  useEffect(() => () => {
+    observerRef.current?.disconnect();
+    pendingRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  // One stable ref callback per station, so re-renders don't re-observe every card. A station
+  // can have cards in several lists at once; each gets its own cleanup.
+  const observe = useCallback((station: Station) => {
+    const id = station.stationuuid;
+    let callback = callbacksRef.current.get(id);
+    if (!callback) {
+      callback = (element: Element | null) => {
+        if (!element) return;
+        stationsRef.current.set(element, station);
+        getObserver()?.observe(element);
+        return () => {
+          getObserver()?.unobserve(element);
+          stationsRef.current.delete(element);
+        };
+      };
+      callbacksRef.current.set(id, callback);
+    }
+    return callback;
+  }, [getObserver]);
+
+  return { health, observe };
+};
@@ -0,0 +1,238 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Middleware, isPublicStreamUrl, openUpstream, RELAY_HEADERS, sendText } from './upstream';
+
+// Browsers can't ask Icecast/Shoutcast servers for in-band metadata, so this
+// proxy does it for them. One upstream connection per stream URL is shared by
+// everyone listening:
+//   GET /api/icy/health                 200 when the proxy is mounted
+//   GET /api/icy/events?url=<stream>    Server-Sent Events, one `track` event per StreamTitle change
+//   GET /api/icy/stream?url=<stream>    the audio with the metadata blocks removed
+// The upstream is closed a few seconds after its last subscriber leaves.
+
+export interface IcyTrack {
+  raw: string;
+  at: number;
+}
+
+interface UpstreamInfo {
+  contentType: string;
+  metaint: number;
+}
+
+const IDLE_CLOSE_MS = 5_000;
+const HEARTBEAT_MS = 20_000;
+
+/** Splits an ICY stream into audio and metadata as bytes arrive, whatever the chunk boundaries. */
+export class IcyDemuxer {
+  private audioLeft: number;
+  private metaLeft = 0;
+  private meta: Buffer[] = [];
+  private state: 'audio' | 'length' | 'meta' = 'audio';
+
+  constructor(private readonly metaint: number) {
+    this.audioLeft = metaint;
+  }
+
+  push(chunk: Buffer, onAudio: (audio: Buffer) => void, onMetadata: (block: Buffer) => void) {
+    // Without icy-metaint the whole stream is audio
+    if (this.metaint <= 0) { onAudio(chunk); return; }
+    let offset = 0;
+    while (offset < chunk.length) {
+      if (this.state === 'audio') {
+        const take = Math.min(this.audioLeft, chunk.length - offset);
+        onAudio(chunk.subarray(offset, offset + take));
+        offset += take;
+        this.audioLeft -= take;
+        if (this.audioLeft === 0) this.state = 'length';
+      } else if (this.state === 'length') {
+        this.metaLeft = chunk[offset++] * 16;
+        this.state = this.metaLeft > 0 ? 'meta' : 'audio';
+        if (this.metaLeft === 0) this.audioLeft = this.metaint;
+      } else {
+        const take = Math.min(this.metaLeft, chunk.length - offset);
+        this.meta.push(chunk.subarray(offset, offset + take));
+        offset += take;
+        this.metaLeft -= take;
+        if (this.metaLeft === 0) {
+          onMetadata(Buffer.concat(this.meta));
+          this.meta = [];
+          this.state = 'audio';
+          this.audioLeft = this.metaint;
+        }
+      }
+    }
+  }
+}
+
+/** Reads StreamTitle from a metadata block; servers disagree on UTF-8 vs Latin-1, so fall back when UTF-8 fails. */
+export const parseStreamTitle = (block: Buffer): string | null => {
+  const decode = (encoding: BufferEncoding) => block.toString(encoding).replace(/\0+$/, '');
+  let text = decode('utf8');
+  if (text.includes('�')) text = decode('latin1');
+  const match = text.match(/StreamTitle='([\s\S]*?)';/);
+  return match ? match[1].trim() : null;
+};
+
+class IcyChannel {
+  lastTrack: IcyTrack | null = null;
+  private upstream: IncomingMessage | null = null;
+  private ready: Promise<UpstreamInfo> | null = null;
+  private trackListeners = new Set<(track: IcyTrack) => void>();
+  private endListeners = new Set<(error: Error) => void>();
+  private audioSinks = new Set<ServerResponse>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private readonly url: URL, private readonly onClosed: () => void) {}
+
+  start(): Promise<UpstreamInfo> {
+    if (!this.ready) {
+      this.ready = openUpstream(this.url, { 'Icy-MetaData': '1' }).then(({ response: upstream }) => {
+        // Everyone left while the connection was being made
+        if (this.closed) {
+          upstream.destroy();
+          throw new Error('Channel closed');
+        }
+        this.upstream = upstream;
+        const metaint = Number(upstream.headers['icy-metaint']) || 0;
+        const demuxer = new IcyDemuxer(metaint);
+        upstream.on('data', (chunk: Buffer) => demuxer.push(
+          chunk,
+          audio => this.audioSinks.forEach(sink => sink.write(audio)),
+          block => {
+            const raw = parseStreamTitle(block);
+            if (raw === null || raw === this.lastTrack?.raw) return;
+            this.lastTrack = { raw, at: Date.now() };
+            this.trackListeners.forEach(listener => listener(this.lastTrack!));
+          }
+        ));
+        upstream.on('end', () => this.fail(new Error('Upstream ended')));
+        upstream.on('error', err => this.fail(err));
+        return { contentType: String(upstream.headers['content-type'] || 'audio/mpeg'), metaint };
+      });
+      this.ready.catch(err => this.fail(err));
+    }
+    return this.ready;
+  }
+
+  subscribe(onTrack: (track: IcyTrack) => void, onEnd: (error: Error) => void): () => void {
+    this.trackListeners.add(onTrack);
+    this.endListeners.add(onEnd);
+    this.cancelIdle();
+    return () => {
+      this.trackListeners.delete(onTrack);
+      this.endListeners.delete(onEnd);
+      this.scheduleIdle();
+    };
+  }
+
+  addAudioSink(sink: ServerResponse): () => void {
+    this.audioSinks.add(sink);
+    this.cancelIdle();
+    return () => {
+      this.audioSinks.delete(sink);
+      this.scheduleIdle();
+    };
+  }
+
+  private cancelIdle() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+
+  // A short grace period lets a re-tune or page reload reuse the connection
+  scheduleIdle() {
+    if (this.trackListeners.size > 0 || this.audioSinks.size > 0) return;
+    this.cancelIdle();
+    this.idleTimer = setTimeout(() => this.close(), IDLE_CLOSE_MS);
+  }
+
+  private fail(error: Error) {
+    this.endListeners.forEach(listener => listener(error));
+    this.audioSinks.forEach(sink => sink.end());
+    this.close();
+  }
+
+  private close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.cancelIdle();
+    this.upstream?.destroy();
+    this.upstream = null;
+    this.trackListeners.clear();
+    this.endListeners.clear();
+    this.audioSinks.clear();
+    this.onClosed();
+  }
+}
+
+export const createIcyProxy = (basePath = '/api/icy'): Middleware => {
+  const channels = new Map<string, IcyChannel>();
+
+  const getChannel = (url: URL) => {
+    const key = url.toString();
+    let channel = channels.get(key);
+    if (!channel) {
+      channel = new IcyChannel(url, () => { if (channels.get(key) === channel) channels.delete(key); });
+      channels.set(key, channel);
+    }
+    return channel;
+  };
+
+  const handleEvents = (req: IncomingMessage, res: ServerResponse, channel: IcyChannel) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+      'Access-Control-Allow-Origin': '*',
+    });
+    res.write('retry: 10000\n\n');
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    if (channel.lastTrack) send('track', channel.lastTrack);
+
+    const unsubscribe = channel.subscribe(
+      track => send('track', track),
+      error => { send('end', { message: error.message }); res.end(); }
+    );
+    channel.start().then(info => { if (info.metaint <= 0) send('end', { message: 'This stream does not send track titles' }); }, () => {});
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+    req.on('close', () => { clearInterval(heartbeat); unsubscribe(); });
+  };
+
+  const handleStream = async (req: IncomingMessage, res: ServerResponse, channel: IcyChannel) => {
+    // The listener may leave while the upstream is still connecting
+    let removeSink: (() => void) | null = null;
+    let left = false;
+    req.on('close', () => { left = true; removeSink?.(); });
+    let info: UpstreamInfo;
+    try {
+      info = await channel.start();
+    } catch (err) {
+      sendText(res, 502, err instanceof Error ? err.message : 'Upstream unavailable');
+      return;
+    }
+    if (left || req.destroyed) { channel.scheduleIdle(); return; }
+    res.writeHead(200, { 'Content-Type': info.contentType, ...RELAY_HEADERS });
+    removeSink = channel.addAudioSink(res);
+  };
+
+  return (req, res, next) => {
+    const requestUrl = new URL(req.url ?? '/', 'http://localhost');
+    if (!requestUrl.pathname.startsWith(basePath) || req.method !== 'GET') { next(); return; }
+    const route = requestUrl.pathname.slice(basePath.length);
+
+    if (route === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json', ...RELAY_HEADERS });
+      res.end(JSON.stringify({ ok: true }));
+      return;
+    }
+    if (route !== '/events' && route !== '/stream') { next(); return; }
+
+    const target = isPublicStreamUrl(requestUrl.searchParams.get('url') ?? '');
+    if (!target) { sendText(res, 400, 'A public http(s) stream URL is required'); return; }
+    const channel = getChannel(target);
+    if (route === '/events') handleEvents(req, res, channel);
+    else handleStream(req, res, channel);
+  };
+};
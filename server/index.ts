@@ -0,0 +1,38 @@
+import type { Plugin } from 'vite';
+import { createIcyProxy } from './icyProxy';
+import { createStreamProbe } from './streamProbe';
+import { createStreamRelay } from './streamRelay';
+import { Middleware, isAllowedOrigin, sendText } from './upstream';
+
+const SERVICE_PATHS = ['/api/icy', '/api/relay', '/api/probe'];
+
+/**
+ * The ICY metadata proxy, stream relay and stream prober as a single middleware.
+ * They only answer the app itself, plus `allowedOrigins` when the relay runs on a host of its own.
+ */
+export const createStreamServices = (allowedOrigins: string[] = []): Middleware => {
+  const handlers = [createIcyProxy(), createStreamRelay(), createStreamProbe()];
+  return (req, res, next) => {
+    const path = (req.url ?? '/').split('?')[0];
+    if (SERVICE_PATHS.some(base => path === base || path.startsWith(`${base}/`)) && !isAllowedOrigin(req, allowedOrigins)) {
+      sendText(res, 403, 'Requests from other sites are not accepted');
+      return;
+    }
+    const run = (index: number) => {
+      if (index === handlers.length) next();
+      else handlers[index](req, res, () => run(index + 1));
+    };
+    run(0);
+  };
+};
+
+/** Mounts the stream services on both `vite` and `vite preview`. */
+export const streamServicesPlugin = (): Plugin => ({
+  name: 'voxworld-stream-services',
+  configureServer(server) {
+    server.middlewares.use(createStreamServices());
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createStreamServices());
+  },
+});
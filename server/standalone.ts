@@ -0,0 +1,29 @@
+import http from 'node:http';
+import { createStreamServices } from './index';
+import { sendText } from './upstream';
+
+// Runs the stream relay and ICY proxy on their own, for deployments where the
+// app is served as static files. Point the app at it with STREAM_RELAY_BASE,
+// and list the app's origin in RELAY_ALLOWED_ORIGINS (comma-separated).
+
+const port = Number(process.env.RELAY_PORT) || 8787;
+const host = process.env.RELAY_HOST || '127.0.0.1';
+const allowedOrigins = (process.env.RELAY_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+const services = createStreamServices(allowedOrigins);
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': '*',
+    });
+    res.end();
+    return;
+  }
+  services(req, res, () => sendText(res, 404, 'Not found'));
+});
+
+server.listen(port, host, () => {
+  console.log(`VoxWorld stream relay listening on http://${host}:${port}`);
+});
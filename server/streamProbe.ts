@@ -0,0 +1,57 @@
+import { Middleware, isPublicStreamUrl, openUpstream, RELAY_HEADERS, sendText } from './upstream';
+
+// Checks a stream without playing it: connects, reads the response headers and
+// hangs up. Browsers can't do this for most stations because of CORS.
+//   GET /api/probe?url=<stream>  ->  StreamProbeResult as JSON
+
+export interface StreamProbeResult {
+  reachable: boolean;
+  /** Time until the response headers arrived. */
+  latencyMs: number | null;
+  contentType: string | null;
+  bitrate: number | null;
+  /** Whether the same stream answers over https; null when it already is https. */
+  https: boolean | null;
+  error: string | null;
+}
+
+const PROBE_TIMEOUT_MS = 6_000;
+
+const probeOnce = (url: URL) => new Promise<{ latencyMs: number; contentType: string | null; bitrate: number | null }>((resolve, reject) => {
+  const startedAt = Date.now();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; reject(new Error('Timed out')); }, PROBE_TIMEOUT_MS);
+  openUpstream(url).then(({ response }) => {
+    clearTimeout(timer);
+    // Only the headers matter; a late answer is still hung up on
+    response.destroy();
+    if (timedOut) return;
+    const bitrate = Number(response.headers['icy-br']);
+    resolve({
+      latencyMs: Date.now() - startedAt,
+      contentType: response.headers['content-type']?.split(';')[0].trim().toLowerCase() || null,
+      bitrate: Number.isFinite(bitrate) && bitrate > 0 ? bitrate : null,
+    });
+  }, err => { clearTimeout(timer); reject(err); });
+});
+
+export const probeStream = async (url: URL): Promise<StreamProbeResult> => {
+  const secureUrl = url.protocol === 'http:' ? new URL(url.toString().replace(/^http:/, 'https:')) : null;
+  const [plain, secure] = await Promise.allSettled([probeOnce(url), secureUrl ? probeOnce(secureUrl) : Promise.resolve(null)]);
+  const https = secureUrl ? secure.status === 'fulfilled' : null;
+  if (plain.status === 'rejected') {
+    return { reachable: false, latencyMs: null, contentType: null, bitrate: null, https, error: plain.reason instanceof Error ? plain.reason.message : 'Unreachable' };
+  }
+  return { reachable: true, ...plain.value, https, error: null };
+};
+
+export const createStreamProbe = (basePath = '/api/probe'): Middleware => (req, res, next) => {
+  const requestUrl = new URL(req.url ?? '/', 'http://localhost');
+  if (req.method !== 'GET' || requestUrl.pathname !== basePath) { next(); return; }
+  const target = isPublicStreamUrl(requestUrl.searchParams.get('url') ?? '');
+  if (!target) { sendText(res, 400, 'A public http(s) stream URL is required'); return; }
+  probeStream(target).then(result => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ...RELAY_HEADERS });
+    res.end(JSON.stringify(result));
+  });
+};
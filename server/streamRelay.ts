@@ -0,0 +1,89 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { pipeline } from 'node:stream';
+import { Middleware, isPublicStreamUrl, openUpstream, RELAY_HEADERS, sendText } from './upstream';
+
+// Same-origin pass-through for stations that don't send CORS headers or are
+// only reachable over plain http. Web Audio can then read the samples, so the
+// spectrum, EQ and recorder work as they do for well-behaved stations.
+//   GET /api/relay/health
+//   GET /api/relay?url=<stream, playlist or segment>
+// HLS playlists are rewritten so their variants, segments and keys come
+// through the relay too. Icecast/Shoutcast audio goes through /api/icy/stream
+// instead, which shares its connection with the track titles.
+
+const MAX_PLAYLIST_BYTES = 2 * 1024 * 1024;
+
+const isPlaylist = (url: URL, contentType: string) =>
+  /mpegurl/i.test(contentType) || url.pathname.toLowerCase().endsWith('.m3u8');
+
+/** Points every URI in an HLS playlist back at the relay. */
+export const rewritePlaylist = (text: string, base: URL, toRelay: (url: string) => string): string =>
+  text.split(/\r?\n/).map(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return line;
+    if (trimmed.startsWith('#')) return line.replace(/URI="([^"]+)"/g, (_, uri: string) => `URI="${toRelay(new URL(uri, base).toString())}"`);
+    return toRelay(new URL(trimmed, base).toString());
+  }).join('\n');
+
+const readBody = (response: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  response.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_PLAYLIST_BYTES) { response.destroy(new Error('Playlist too large')); return; }
+    chunks.push(chunk);
+  });
+  response.on('end', () => resolve(Buffer.concat(chunks)));
+  response.on('error', reject);
+});
+
+export const createStreamRelay = (basePath = '/api/relay'): Middleware => {
+  const toRelay = (url: string) => `${basePath}?url=${encodeURIComponent(url)}`;
+
+  const relay = async (res: ServerResponse, target: URL) => {
+    let upstream;
+    try {
+      upstream = await openUpstream(target);
+    } catch (err) {
+      sendText(res, 502, err instanceof Error ? err.message : 'Upstream unavailable');
+      return;
+    }
+    const { response, url } = upstream;
+    const contentType = String(response.headers['content-type'] || 'application/octet-stream');
+
+    if (isPlaylist(url, contentType)) {
+      try {
+        const text = (await readBody(response)).toString('utf8');
+        res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl', ...RELAY_HEADERS });
+        res.end(rewritePlaylist(text, url, toRelay));
+      } catch (err) {
+        sendText(res, 502, err instanceof Error ? err.message : 'Playlist unavailable');
+      }
+      return;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': contentType, ...RELAY_HEADERS };
+    if (response.headers['content-length']) headers['Content-Length'] = String(response.headers['content-length']);
+    res.writeHead(200, headers);
+    // Live streams never end on their own: the listener leaving destroys the upstream, and an
+    // upstream failure ends the response instead of leaving the player waiting on it
+    pipeline(response, res, () => {});
+  };
+
+  return (req, res, next) => {
+    const requestUrl = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'GET' || (requestUrl.pathname !== basePath && requestUrl.pathname !== `${basePath}/health`)) { next(); return; }
+
+    if (requestUrl.pathname.endsWith('/health')) {
+      res.writeHead(200, { 'Content-Type': 'application/json', ...RELAY_HEADERS });
+      res.end(JSON.stringify({ ok: true }));
+      return;
+    }
+    const target = isPublicStreamUrl(requestUrl.searchParams.get('url') ?? '');
+    if (!target) { sendText(res, 400, 'A public http(s) stream URL is required'); return; }
+    relay(res, target).catch(err => {
+      if (!res.headersSent) sendText(res, 502, err instanceof Error ? err.message : 'Upstream unavailable');
+      else res.destroy();
+    });
+  };
+};
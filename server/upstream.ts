@@ -0,0 +1,125 @@
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const MAX_REDIRECTS = 5;
+const CONNECT_TIMEOUT_MS = 10_000;
+const USER_AGENT = 'VoxWorld/1.0 (stream relay)';
+
+// Loopback, private, link-local, CGNAT, unspecified, multicast and reserved ranges.
+// IPv4-mapped IPv6 (::ffff:a.b.c.d) is refused outright rather than unwrapped.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+/** True for addresses the relays must never connect to. */
+export const isBlockedAddress = (address: string) => {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  // BlockList would match mapped addresses against the IPv4 rules; canonicalise and refuse them all instead
+  if (family === 6 && new URL(`http://[${address}]`).hostname.startsWith('[::ffff:')) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// The relays fetch arbitrary URLs on the user's behalf; keep them away from the local network.
+// This only sees the URL's text; names are checked again once resolved, in `openUpstream`.
+export const isPublicStreamUrl = (value: string): URL | null => {
+  let url: URL;
+  try { url = new URL(value); } catch { return null; }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return null;
+  if (net.isIP(host) && isBlockedAddress(host)) return null;
+  return url;
+};
+
+// Resolves like the default lookup, but fails when any address the name points at is blocked,
+// so a public name can't be used to reach the LAN (or rebound to it between check and connect)
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) { callback(err, '', 0); return; }
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0 || list.some(entry => isBlockedAddress(entry.address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a disallowed address`), { code: 'EDISALLOWED' }), '', 0);
+      return;
+    }
+    if (options.all) (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    else callback(null, list[0].address, list[0].family);
+  });
+};
+
+export interface Upstream {
+  response: IncomingMessage;
+  /** Where the redirects ended up; relative URLs in playlists resolve against this. */
+  url: URL;
+}
+
+/** GETs a public URL, following redirects (each one checked again), and resolves once a 200 response starts. */
+export const openUpstream = (url: URL, headers: Record<string, string> = {}, redirects = 0): Promise<Upstream> => new Promise((resolve, reject) => {
+  const client = url.protocol === 'https:' ? https : http;
+  const request = client.get(url, {
+    headers: { 'User-Agent': USER_AGENT, Accept: '*/*', ...headers },
+    timeout: CONNECT_TIMEOUT_MS,
+    lookup: publicLookup,
+    // Shoutcast v1 answers with "ICY 200 OK" and other non-standard headers
+    insecureHTTPParser: true,
+  }, response => {
+    const status = response.statusCode ?? 0;
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) { reject(new Error('Too many redirects')); return; }
+      let location: string;
+      try {
+        location = new URL(response.headers.location, url).toString();
+      } catch {
+        reject(new Error('Upstream sent a malformed redirect'));
+        return;
+      }
+      const next = isPublicStreamUrl(location);
+      if (!next) { reject(new Error('Redirected to a disallowed address')); return; }
+      openUpstream(next, headers, redirects + 1).then(resolve, reject);
+      return;
+    }
+    if (status !== 200) { response.resume(); reject(new Error(`Upstream answered ${status}`)); return; }
+    request.setTimeout(0);
+    resolve({ response, url });
+  });
+  request.on('timeout', () => request.destroy(new Error('Upstream timed out')));
+  request.on('error', reject);
+});
+
+/** Headers every relayed response carries so the page can read it through Web Audio. */
+export const RELAY_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+/**
+ * Browsers name the page behind a request; refuse ones started by other sites,
+ * so a page elsewhere can't use the relays as a proxy. The app's own origin and
+ * `allowedOrigins` (for a relay deployed on its own host) pass.
+ */
+export const isAllowedOrigin = (req: IncomingMessage, allowedOrigins: string[] = []) => {
+  const origin = req.headers.origin;
+  if (origin) {
+    if (allowedOrigins.includes(origin)) return true;
+    try { return new URL(origin).host === req.headers.host; } catch { return false; }
+  }
+  // Media elements without crossorigin don't send Origin, but do say where they come from
+  const site = req.headers['sec-fetch-site'];
+  return site === undefined || site === 'same-origin' || site === 'none';
+};
+
+export const sendText = (res: ServerResponse, status: number, text: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', ...RELAY_HEADERS });
+  res.end(text);
+};
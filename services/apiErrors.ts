@@ -0,0 +1,85 @@
+/** Base class for every failure surfaced by the radio-browser client. */
+export class RadioApiError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RadioApiError';
+  }
+
+  /** Short, user-facing explanation suitable for an error banner. */
+  get userMessage(): string {
+    return 'Something went wrong while tuning in.';
+  }
+}
+
+/** The request never produced a response: offline, DNS, CORS, timeout or every mirror down. */
+export class NetworkError extends RadioApiError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, options?: { cause?: unknown; timedOut?: boolean }) {
+    super(message, options);
+    this.name = 'NetworkError';
+    this.timedOut = options?.timedOut ?? false;
+  }
+
+  get userMessage() {
+    return this.timedOut
+      ? 'The station directory took too long to answer.'
+      : 'Could not reach the station directory. Check your connection.';
+  }
+}
+
+/** The server answered with a non-2xx status. */
+export class HttpError extends RadioApiError {
+  readonly status: number;
+  readonly url: string;
+
+  constructor(status: number, url: string) {
+    super(`Request to ${url} failed with HTTP ${status}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.url = url;
+  }
+
+  get userMessage() {
+    return this.status >= 500
+      ? 'The station directory is having trouble right now.'
+      : `The station directory rejected the request (HTTP ${this.status}).`;
+  }
+}
+
+/** HTTP 429 — the mirror is throttling us. */
+export class RateLimitError extends HttpError {
+  /** Seconds until a retry is allowed, when the server says so. */
+  readonly retryAfter: number | null;
+
+  constructor(url: string, retryAfter: number | null) {
+    super(429, url);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+
+  get userMessage() {
+    return this.retryAfter
+      ? `Too many requests. Try again in ${this.retryAfter}s.`
+      : 'Too many requests. Give it a moment and try again.';
+  }
+}
+
+/** The body was not JSON or did not have the expected shape. */
+export class ParseError extends RadioApiError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ParseError';
+  }
+
+  get userMessage() {
+    return 'The station directory sent a response we could not read.';
+  }
+}
+
+/** True for rejections caused by an AbortController (superseded or cancelled requests). */
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === 'AbortError';
+
+export const getErrorMessage = (err: unknown): string =>
+  err instanceof RadioApiError ? err.userMessage : 'Something went wrong while tuning in.';
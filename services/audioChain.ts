@@ -0,0 +1,96 @@
+import { DynamicsMode } from '../types';
+import { EQ_BANDS, eqHeadroomDb } from '../utils/equalizer';
+
+// input ─┬─ normalise ─ headroom ─ 10 × EQ ─ dynamics ─ wet ─┬─ output
+//        ├──────────────────────── dry ──────────────────────┘
+//        └─ loudness pre-filter ─ meter
+// Bypass crossfades wet and dry, so A/B switching doesn't click.
+
+const SMOOTHING_S = 0.05;
+/** Normalisation gain glides this slowly, so corrections aren't heard as pumping. */
+const NORMALIZE_SMOOTHING_S = 2;
+const EQ_Q = 1.4;
+
+const DYNAMICS: Record<DynamicsMode, { threshold: number; knee: number; ratio: number; attack: number; release: number }> = {
+  off: { threshold: 0, knee: 0, ratio: 1, attack: 0.003, release: 0.25 },
+  compressor: { threshold: -24, knee: 24, ratio: 3, attack: 0.01, release: 0.25 },
+  limiter: { threshold: -3, knee: 0, ratio: 20, attack: 0.002, release: 0.1 },
+};
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const createAudioChain = (ctx: AudioContext) => {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const normalizer = ctx.createGain();
+  const headroom = ctx.createGain();
+  const compressor = ctx.createDynamicsCompressor();
+  const wet = ctx.createGain();
+  const dry = ctx.createGain();
+  const filters = EQ_BANDS.map((frequency, i) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = EQ_Q;
+    filter.gain.value = 0;
+    return filter;
+  });
+
+  // Rough K-weighting (as used for LUFS): ignore rumble, weigh presence up
+  const meterHighpass = ctx.createBiquadFilter();
+  meterHighpass.type = 'highpass';
+  meterHighpass.frequency.value = 60;
+  const meterShelf = ctx.createBiquadFilter();
+  meterShelf.type = 'highshelf';
+  meterShelf.frequency.value = 1500;
+  meterShelf.gain.value = 4;
+  const meter = ctx.createAnalyser();
+  meter.fftSize = 2048;
+  const samples = new Float32Array(meter.fftSize);
+
+  [input, normalizer, headroom, ...filters, compressor, wet, output].reduce((from, to) => { from.connect(to); return to; });
+  input.connect(dry).connect(output);
+  input.connect(meterHighpass).connect(meterShelf).connect(meter);
+  dry.gain.value = 0;
+
+  const glide = (param: AudioParam, value: number, smoothing = SMOOTHING_S) =>
+    param.setTargetAtTime(value, ctx.currentTime, smoothing);
+
+  return {
+    input,
+    output,
+
+    setEq(gains: number[]) {
+      filters.forEach((filter, i) => glide(filter.gain, gains[i] ?? 0));
+      glide(headroom.gain, dbToGain(eqHeadroomDb(gains)));
+    },
+
+    setDynamics(mode: DynamicsMode) {
+      const { threshold, knee, ratio, attack, release } = DYNAMICS[mode];
+      glide(compressor.threshold, threshold);
+      glide(compressor.knee, knee);
+      glide(compressor.ratio, ratio);
+      glide(compressor.attack, attack);
+      glide(compressor.release, release);
+    },
+
+    setBypass(bypass: boolean) {
+      glide(wet.gain, bypass ? 0 : 1);
+      glide(dry.gain, bypass ? 1 : 0);
+    },
+
+    setNormalizeGain(db: number) {
+      glide(normalizer.gain, dbToGain(db), NORMALIZE_SMOOTHING_S);
+    },
+
+    /** Current short-term level of the unprocessed input in dB, or -Infinity in silence. */
+    measureDb() {
+      meter.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      return 10 * Math.log10(sum / samples.length);
+    },
+  };
+};
+
+export type AudioChain = ReturnType<typeof createAudioChain>;
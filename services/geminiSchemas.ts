@@ -0,0 +1,17 @@
+import { GeminiRecommendation } from '../types';
+
+// Gemini is asked for JSON matching a schema, but that is a request rather than
+// a guarantee; saved conversations go through the same check when read back.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A recommendation with a genre to search for, or null when there isn't one to salvage. */
+export const parseRecommendation = (raw: unknown): GeminiRecommendation | null => {
+  if (!isRecord(raw) || typeof raw.genre !== 'string' || !raw.genre) return null;
+  return {
+    genre: raw.genre,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    suggestedCountries: Array.isArray(raw.suggestedCountries) ? raw.suggestedCountries.filter((c): c is string => typeof c === 'string') : [],
+  };
+};
@@ -1,41 +1,77 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { GeminiRecommendation } from "../types";
+import { parseRecommendation } from "./geminiSchemas";
+
+const MODEL = "gemini-3-flash-preview";
+
+const RECOMMENDATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    genre: { type: Type.STRING, description: "A primary genre tag to search for." },
+    description: { type: Type.STRING, description: "A short, engaging description of how this fits all requested factors." },
+    suggestedCountries: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "A list of 2-3 countries famous for this specific niche or style."
+    }
+  },
+  required: ["genre", "description", "suggestedCountries"]
+};
+
+const DJ_INSTRUCTION = `You are a world-class music curator working as a radio DJ in a conversation. Each of your answers is a global radio genre tag to search for, a short description and 2-3 countries known for it.
+The listener refines your previous pick step by step ("more upbeat", "less vocals", "closer to Portugal"). Adjust the last recommendation by what they ask and keep everything they didn't ask to change. When one word tag can't capture the result, pick the most specific tag a radio directory would use.`;
+
+const parseResponse = (text: string | undefined): GeminiRecommendation | null => {
+  try {
+    // Use .text property directly and trim it before parsing
+    const jsonStr = text?.trim();
+    if (!jsonStr) return null;
+    return parseRecommendation(JSON.parse(jsonStr));
+  } catch (e) {
+    console.error("Failed to parse Gemini response", e);
+    return null;
+  }
+};
 
 export const geminiService = {
   async recommendStations(moodOrQuery: string) {
     // Create a new instance right before making the API call as per guidelines
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
+      model: MODEL,
       contents: `You are a world-class music curator. Suggest a highly tailored global radio genre and specific regions based on these combined factors: "${moodOrQuery}". 
       If multiple genres or moods are provided, find a specific niche or "hybrid" genre that satisfies all the requirements (e.g., if user asks for 'Jazz' and 'Electronic', you might suggest 'Nu-Jazz' or 'Acid Jazz').
       Format the response as JSON.`,
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            genre: { type: Type.STRING, description: "A primary genre tag to search for." },
-            description: { type: Type.STRING, description: "A short, engaging description of how this fits all requested factors." },
-            suggestedCountries: {
-              type: Type.ARRAY,
-              items: { type: Type.STRING },
-              description: "A list of 2-3 countries famous for this specific niche or style."
-            }
-          },
-          required: ["genre", "description", "suggestedCountries"]
-        }
+        responseSchema: RECOMMENDATION_SCHEMA
       }
     });
+    return parseResponse(response.text);
+  },
 
-    try {
-      // Use .text property directly and trim it before parsing
-      const jsonStr = response.text?.trim();
-      if (!jsonStr) return null;
-      return JSON.parse(jsonStr);
-    } catch (e) {
-      console.error("Failed to parse Gemini response", e);
-      return null;
-    }
+  /**
+   * Continues an AI DJ conversation: `history` holds the earlier prompts with
+   * the recommendations they got, and `prompt` refines the last one.
+   */
+  async refineRecommendation(history: { prompt: string; recommendation: GeminiRecommendation }[], prompt: string): Promise<GeminiRecommendation | null> {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: [
+        ...history.flatMap(turn => [
+          { role: "user", parts: [{ text: turn.prompt }] },
+          { role: "model", parts: [{ text: JSON.stringify(turn.recommendation) }] }
+        ]),
+        { role: "user", parts: [{ text: prompt }] }
+      ],
+      config: {
+        systemInstruction: DJ_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: RECOMMENDATION_SCHEMA
+      }
+    });
+    return parseResponse(response.text);
   }
 };
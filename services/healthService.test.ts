@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { withSlot, MAX_CONCURRENT_PROBES } from './healthService';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('withSlot', () => {
+  it('never runs more than MAX_CONCURRENT_PROBES tasks at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const gates: (() => void)[] = [];
+    const task = async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      const gate = deferred();
+      gates.push(gate.resolve);
+      await gate.promise;
+      running -= 1;
+    };
+
+    const total = MAX_CONCURRENT_PROBES * 4;
+    let started = 0;
+    let finished = 0;
+    const start = () => {
+      started += 1;
+      withSlot(task).then(() => {
+        finished += 1;
+        // Callers arriving as a slot frees up compete with the ones already waiting
+        if (started < total) start();
+      });
+    };
+    for (let i = 0; i < MAX_CONCURRENT_PROBES * 2; i++) start();
+
+    while (finished < total) {
+      await flush();
+      gates.splice(0).forEach(open => open());
+    }
+
+    expect(peak).toBe(MAX_CONCURRENT_PROBES);
+    expect(running).toBe(0);
+  });
+
+  it('lets a cancelled waiter leave without taking a slot', async () => {
+    const gate = deferred();
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await gate.promise;
+      running -= 1;
+    };
+
+    const busy = Array.from({ length: MAX_CONCURRENT_PROBES }, () => withSlot(task));
+    const controller = new AbortController();
+    const cancelled = withSlot(task, controller.signal);
+    const next = withSlot(task);
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow('cancelled');
+    gate.resolve();
+    await Promise.all([...busy, next]);
+    expect(peak).toBe(MAX_CONCURRENT_PROBES);
+    expect(running).toBe(0);
+  });
+});
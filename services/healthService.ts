@@ -0,0 +1,150 @@
+import { Station } from '../types';
+import { queryCache } from './queryCache';
+import { relayService } from './relayService';
+import { isHlsStation, isHlsUrl } from '../utils/playbackStrategies';
+
+export interface StationHealth {
+  reachable: boolean;
+  /** Time until the stream's response headers arrived. */
+  latencyMs: number | null;
+  contentType: string | null;
+  codec: string | null;
+  hls: boolean;
+  /** Whether the stream is (or is also) served over https; null when that couldn't be checked. */
+  https: boolean | null;
+  checkedAt: number;
+}
+
+/** Streams slower than this to answer get a "slow" badge. */
+export const SLOW_STREAM_MS = 2_500;
+
+const HEALTH_TTL_MS = 30 * 60_000;
+export const MAX_CONCURRENT_PROBES = 3;
+const BROWSER_PROBE_TIMEOUT_MS = 6_000;
+
+const CODECS: [RegExp, string][] = [
+  [/mpeg$|mp3$/, 'MP3'],
+  [/aacp?$|aac-?hev?c?$|mp4$|x-m4a$/, 'AAC'],
+  [/opus$/, 'OPUS'],
+  [/ogg$/, 'OGG'],
+  [/flac$/, 'FLAC'],
+];
+
+const codecFromContentType = (contentType: string | null) =>
+  contentType ? CODECS.find(([pattern]) => pattern.test(contentType))?.[1] ?? null : null;
+
+const abortError = () => new DOMException('The probe was cancelled', 'AbortError');
+
+// Probes wait for a free slot so a screen full of cards doesn't open dozens of streams at once.
+// A finished probe hands its slot straight to the next in line, so no caller can slip in between.
+let activeProbes = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (signal?: AbortSignal): Promise<void> => {
+  if (activeProbes < MAX_CONCURRENT_PROBES) {
+    activeProbes += 1;
+    return Promise.resolve();
+  }
+  return new Promise<void>((resolve, reject) => {
+    const start = () => { signal?.removeEventListener('abort', cancel); resolve(); };
+    const cancel = () => {
+      const index = waiting.indexOf(start);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(abortError());
+    };
+    waiting.push(start);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+};
+
+const releaseSlot = () => {
+  const next = waiting.shift();
+  if (next) next();
+  else activeProbes -= 1;
+};
+
+/** Runs `task` once one of the MAX_CONCURRENT_PROBES slots is free. */
+export const withSlot = async <T,>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) throw abortError();
+  await acquireSlot(signal);
+  if (signal?.aborted) { releaseSlot(); throw abortError(); }
+  try {
+    return await task();
+  } finally {
+    releaseSlot();
+  }
+};
+
+/** Requests the URL and hangs up as soon as the headers are in. */
+const fetchHeaders = async (url: string, mode: RequestMode, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timeout = setTimeout(() => controller.abort(), BROWSER_PROBE_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { mode, cache: 'no-store', signal: controller.signal });
+    return response;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+    controller.abort();
+  }
+};
+
+const relayProbe = async (station: Station, url: string, signal?: AbortSignal): Promise<StationHealth> => {
+  const response = await fetch(relayService.getProbeUrl(url), { signal });
+  if (!response.ok) throw new Error(`Probe failed (${response.status})`);
+  const result = await response.json() as { reachable: boolean; latencyMs: number | null; contentType: string | null; https: boolean | null };
+  return {
+    reachable: result.reachable,
+    latencyMs: result.latencyMs,
+    contentType: result.contentType,
+    codec: codecFromContentType(result.contentType),
+    hls: isHlsStation(station) || /mpegurl/.test(result.contentType ?? ''),
+    https: url.startsWith('https://') ? true : result.https,
+    checkedAt: Date.now(),
+  };
+};
+
+// Without the relay most stations hide their headers behind CORS; an opaque
+// no-cors response still proves the stream answers
+const browserProbe = async (station: Station, url: string, signal?: AbortSignal): Promise<StationHealth> => {
+  const secureUrl = url.replace(/^http:\/\//, 'https://');
+  const target = window.location.protocol === 'https:' ? secureUrl : url;
+  const startedAt = performance.now();
+  let reachable = true;
+  let contentType: string | null = null;
+  try {
+    contentType = (await fetchHeaders(target, 'cors', signal)).headers.get('content-type')?.split(';')[0].trim().toLowerCase() || null;
+  } catch {
+    if (signal?.aborted) throw abortError();
+    try { await fetchHeaders(target, 'no-cors', signal); } catch { reachable = false; }
+  }
+  if (signal?.aborted) throw abortError();
+  const latencyMs = reachable ? Math.round(performance.now() - startedAt) : null;
+
+  let https: boolean | null = target.startsWith('https://') ? reachable : null;
+  if (https === null) {
+    try { await fetchHeaders(secureUrl, 'no-cors', signal); https = true; } catch { https = signal?.aborted ? null : false; }
+  }
+  return {
+    reachable,
+    latencyMs,
+    contentType,
+    codec: codecFromContentType(contentType),
+    hls: isHlsStation(station) || isHlsUrl(target),
+    https,
+    checkedAt: Date.now(),
+  };
+};
+
+export const healthService = {
+  /** Cached health for a station, probing it (through the relay when there is one) on a miss. */
+  probe(station: Station, signal?: AbortSignal): Promise<StationHealth> {
+    const url = station.url_resolved || station.url;
+    return queryCache.query(`health:${station.stationuuid}`, HEALTH_TTL_MS, () => withSlot(async () => {
+      const viaRelay = await relayService.isAvailable();
+      return viaRelay ? relayProbe(station, url, signal) : browserProbe(station, url, signal);
+    }, signal), { signal });
+  },
+};
@@ -0,0 +1,29 @@
+import { relayService } from './relayService';
+
+export const nowPlayingService = {
+  /** Streams raw StreamTitle changes for a stream URL; returns an unsubscribe function. */
+  subscribe(streamUrl: string, onTitle: (raw: string) => void): () => void {
+    let source: EventSource | null = null;
+    let cancelled = false;
+
+    relayService.isAvailable().then(available => {
+      if (!available || cancelled) return;
+      source = new EventSource(relayService.getEventsUrl(streamUrl));
+      source.addEventListener('track', (event) => {
+        try {
+          const data = JSON.parse((event as MessageEvent<string>).data) as { raw?: unknown };
+          if (typeof data.raw === 'string') onTitle(data.raw);
+        } catch (err) {
+          console.error("Malformed now-playing event", err);
+        }
+      });
+      // The stream has no metadata or went away; reconnecting wouldn't change that
+      source.addEventListener('end', () => source?.close());
+    });
+
+    return () => {
+      cancelled = true;
+      source?.close();
+    };
+  },
+};
@@ -0,0 +1,114 @@
+import Hls from 'hls.js';
+import { PlannedAttempt, StrategyId, isHlsUrl } from '../utils/playbackStrategies';
+
+// Runs planned playback attempts one after another against a single audio
+// element until one of them is actually producing sound.
+
+const ATTEMPT_TIMEOUT_MS = 8_000;
+// Manifest, first segment and decoder setup add up; give hls.js a little longer
+const HLS_ATTEMPT_TIMEOUT_MS = 12_000;
+
+export type AttemptOutcome = 'playing' | 'error' | 'timeout' | 'blocked' | 'aborted';
+
+export interface PlaybackAttempt {
+  strategy: StrategyId;
+  url: string;
+  startedAt: number;
+  latencyMs: number;
+  outcome: AttemptOutcome;
+  /** MediaError.code when the element reported one (2 network, 3 decode, 4 unsupported/blocked). */
+  mediaErrorCode: number | null;
+  message: string | null;
+}
+
+export interface PipelineResult {
+  attempts: PlaybackAttempt[];
+  /** The attempt that is now playing, if any; its hls.js instance stays attached. */
+  winner: PlannedAttempt | null;
+  hls: Hls | null;
+}
+
+interface PipelineOptions {
+  signal: AbortSignal;
+  onAttempt?: (attempt: PlaybackAttempt) => void;
+  /** Lets the caller subscribe to hls.js events (e.g. timed metadata) before loading starts. */
+  configureHls?: (hls: Hls) => void;
+}
+
+/** Stops the element and drops its source so the stream stops downloading. */
+export const stopPlayback = (audio: HTMLAudioElement) => {
+  audio.pause();
+  audio.removeAttribute('src');
+  audio.load();
+};
+
+const runAttempt = (audio: HTMLAudioElement, planned: PlannedAttempt, options: PipelineOptions) =>
+  new Promise<{ attempt: PlaybackAttempt; hls: Hls | null }>((resolve) => {
+    const { strategy, url } = planned;
+    const useHls = strategy.hls && isHlsUrl(url) && Hls.isSupported();
+    const startedAt = Date.now();
+    let hls: Hls | null = null;
+    let settled = false;
+
+    const finish = (outcome: AttemptOutcome, message: string | null = null, mediaErrorCode: number | null = null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      audio.removeEventListener('playing', onPlaying);
+      audio.removeEventListener('error', onError);
+      options.signal.removeEventListener('abort', onAbort);
+      if (outcome !== 'playing') {
+        hls?.destroy();
+        hls = null;
+        stopPlayback(audio);
+      }
+      resolve({
+        attempt: { strategy: strategy.id, url, startedAt, latencyMs: Date.now() - startedAt, outcome, mediaErrorCode, message },
+        hls,
+      });
+    };
+
+    const onPlaying = () => finish('playing');
+    const onError = () => finish('error', audio.error?.message || null, audio.error?.code ?? null);
+    const onAbort = () => finish('aborted');
+    const play = () => audio.play().catch((err: Error) => {
+      if (err.name === 'AbortError') return;
+      // Autoplay rules apply to every strategy alike; trying more of them won't help
+      if (err.name === 'NotAllowedError') finish('blocked', err.message);
+      else finish('error', err.message, audio.error?.code ?? null);
+    });
+    const timeout = setTimeout(() => finish('timeout', 'No audio before the attempt timed out'), useHls ? HLS_ATTEMPT_TIMEOUT_MS : ATTEMPT_TIMEOUT_MS);
+
+    stopPlayback(audio);
+    if (strategy.cors) audio.crossOrigin = 'anonymous';
+    else audio.removeAttribute('crossOrigin');
+    audio.addEventListener('playing', onPlaying);
+    audio.addEventListener('error', onError);
+    options.signal.addEventListener('abort', onAbort);
+
+    if (useHls) {
+      hls = new Hls({ enableWorker: true, xhrSetup: (xhr) => { xhr.withCredentials = false; } });
+      options.configureHls?.(hls);
+      hls.on(Hls.Events.MANIFEST_PARSED, play);
+      hls.on(Hls.Events.ERROR, (_event, data) => { if (data.fatal) finish('error', `hls.js: ${data.details}`); });
+      hls.loadSource(url);
+      hls.attachMedia(audio);
+    } else {
+      audio.src = url;
+      play();
+    }
+  });
+
+/** Tries each planned attempt in turn; stops at the first that plays, is blocked by autoplay rules, or is aborted. */
+export const runPlaybackPipeline = async (audio: HTMLAudioElement, plan: PlannedAttempt[], options: PipelineOptions): Promise<PipelineResult> => {
+  const attempts: PlaybackAttempt[] = [];
+  for (const planned of plan) {
+    if (options.signal.aborted) break;
+    const { attempt, hls } = await runAttempt(audio, planned, options);
+    attempts.push(attempt);
+    options.onAttempt?.(attempt);
+    if (attempt.outcome === 'playing') return { attempts, winner: planned, hls };
+    if (attempt.outcome === 'blocked' || attempt.outcome === 'aborted') break;
+  }
+  return { attempts, winner: null, hls: null };
+};
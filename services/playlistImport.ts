@@ -0,0 +1,149 @@
+import { Station } from '../types';
+import { radioService } from './radioService';
+import { isAbortError } from './apiErrors';
+import { PlaylistEntry } from '../utils/playlistFormats';
+
+// Turning a playlist file into favorites happens in two steps: resolve every
+// entry to a Station (directory match by URL, the record from a JSON export,
+// or a custom station), then compare against the current favorites so the
+// user can review duplicates and conflicts before anything is merged.
+
+export type ImportSource = 'directory' | 'file' | 'custom';
+export type ImportStatus = 'new' | 'duplicate' | 'conflict';
+
+export interface ImportItem {
+  station: Station;
+  source: ImportSource;
+  status: ImportStatus;
+  /** The favorite this entry collides with, for duplicates and conflicts. */
+  existing?: Station;
+}
+
+const RESOLVE_CONCURRENCY = 4;
+export const CUSTOM_STATION_PREFIX = 'custom-';
+
+const normaliseUrl = (url: string) => url.trim().replace(/\/+(;)?$/, '').replace(/^https?:\/\//i, '').toLowerCase();
+
+const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+export const isCustomStation = (station: Station) => station.stationuuid.startsWith(CUSTOM_STATION_PREFIX);
+
+/** A Station for a stream the directory doesn't know; the id is stable so re-imports are recognised. */
+export const createCustomStation = (url: string, title: string): Station => ({
+  changeuuid: '',
+  stationuuid: `${CUSTOM_STATION_PREFIX}${hashString(normaliseUrl(url))}`,
+  name: title || url.replace(/^https?:\/\//i, ''),
+  url,
+  url_resolved: url,
+  homepage: '',
+  favicon: '',
+  tags: '',
+  country: '',
+  countrycode: '',
+  state: '',
+  language: '',
+  votes: 0,
+  codec: '',
+  bitrate: 0,
+  hls: /\.m3u8(\?|$)/i.test(url) ? 1 : 0,
+  // Never checked by radio-browser; isUnreachable reads this as unknown, not failed
+  lastcheckok: 0,
+  clickcount: 0,
+  clicktrend: 0,
+});
+
+const sameStream = (a: Station, b: Station) =>
+  [a.url, a.url_resolved].some(u => u && [b.url, b.url_resolved].some(v => v && normaliseUrl(u) === normaliseUrl(v)));
+
+const resolveEntry = async (entry: PlaylistEntry, signal?: AbortSignal): Promise<{ station: Station; source: ImportSource }> => {
+  if (entry.station) return { station: entry.station, source: 'file' };
+  try {
+    const matches = await radioService.getStationsByUrl(entry.url, { signal });
+    const target = normaliseUrl(entry.url);
+    const match = matches.find(s => normaliseUrl(s.url) === target || normaliseUrl(s.url_resolved) === target) ?? matches[0];
+    if (match) return { station: match, source: 'directory' };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    // A lookup failure only costs the directory metadata; the stream itself is kept
+    console.warn("Playlist entry lookup failed", entry.url, err);
+  }
+  return { station: createCustomStation(entry.url, entry.title), source: 'custom' };
+};
+
+/** Resolves entries a few at a time, keeping file order. */
+export const resolvePlaylistEntries = async (
+  entries: PlaylistEntry[],
+  options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<{ station: Station; source: ImportSource }[]> => {
+  const results: { station: Station; source: ImportSource }[] = new Array(entries.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      results[index] = await resolveEntry(entries[index], options.signal);
+      options.onProgress?.(++done, entries.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(RESOLVE_CONCURRENCY, entries.length) }, worker));
+  return results;
+};
+
+/** Classifies resolved entries against the current favorites; repeats within the file count as duplicates. */
+export const buildImportPreview = (resolved: { station: Station; source: ImportSource }[], favorites: Station[]): ImportItem[] => {
+  const seen = new Map<string, Station>();
+  return resolved.map(({ station, source }) => {
+    const inFile = seen.get(station.stationuuid) ?? Array.from(seen.values()).find(s => sameStream(s, station));
+    if (inFile) return { station, source, status: 'duplicate', existing: inFile };
+    seen.set(station.stationuuid, station);
+
+    const sameId = favorites.find(f => f.stationuuid === station.stationuuid);
+    if (sameId) {
+      const identical = sameId.name === station.name && sameStream(sameId, station);
+      return { station, source, status: identical ? 'duplicate' : 'conflict', existing: sameId };
+    }
+    const sameUrl = favorites.find(f => sameStream(f, station));
+    if (sameUrl) return { station, source, status: 'conflict', existing: sameUrl };
+    return { station, source, status: 'new' };
+  });
+};
+
+/**
+ * Applies an import preview: new stations are appended, conflicts marked for
+ * replacement swap the existing favorite in place. Returns the new favorites
+ * and the ids that changed so collections can follow them.
+ */
+export const mergeImport = (
+  favorites: Station[],
+  items: ImportItem[],
+  replace: Set<number>
+): { favorites: Station[]; replacedIds: Map<string, string>; importedIds: string[] } => {
+  const next = [...favorites];
+  const replacedIds = new Map<string, string>();
+  const importedIds: string[] = [];
+
+  items.forEach((item, index) => {
+    if (item.status === 'new') {
+      next.push(item.station);
+      importedIds.push(item.station.stationuuid);
+    } else if (item.status === 'conflict' && item.existing) {
+      const position = next.findIndex(s => s.stationuuid === item.existing!.stationuuid);
+      if (replace.has(index) && position !== -1) {
+        next[position] = item.station;
+        if (item.existing.stationuuid !== item.station.stationuuid) replacedIds.set(item.existing.stationuuid, item.station.stationuuid);
+        importedIds.push(item.station.stationuuid);
+      } else {
+        importedIds.push(item.existing.stationuuid);
+      }
+    } else if (item.existing) {
+      importedIds.push(item.existing.stationuuid);
+    }
+  });
+
+  const kept = new Set(next.map(s => s.stationuuid));
+  return { favorites: next, replacedIds, importedIds: Array.from(new Set(importedIds)).filter(id => kept.has(id)) };
+};
@@ -0,0 +1,154 @@
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+const DB_NAME = 'voxworld-cache';
+const DB_VERSION = 1;
+const STORE = 'queries';
+// Entries older than this are pruned on startup regardless of endpoint TTL
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MEMORY_ENTRIES = 200;
+
+interface CacheEntry<T> {
+  key: string;
+  data: T;
+  storedAt: number;
+}
+
+export interface QueryOptions<T> {
+  /** Called when a stale entry was served and the background refresh returned different data. */
+  onRevalidate?: (data: T) => void;
+  /**
+   * Cancels the caller's interest in the result. The underlying request keeps
+   * running so it still warms the cache for the next lookup.
+   */
+  signal?: AbortSignal;
+}
+
+const memory = new Map<string, CacheEntry<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const pruneExpired = async (db: IDBDatabase) => {
+  const tx = db.transaction(STORE, 'readwrite');
+  const range = IDBKeyRange.upperBound(Date.now() - MAX_ENTRY_AGE_MS);
+  const cursorRequest = tx.objectStore(STORE).index('storedAt').openCursor(range);
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) { cursor.delete(); cursor.continue(); }
+  };
+  await transactionDone(tx);
+};
+
+// The cache is an optimisation: without IndexedDB (private mode, old browsers) we fall back to memory only
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+      }
+    })
+      .then(db => { pruneExpired(db).catch(() => {}); return db; })
+      .catch(err => { console.warn('Query cache running in memory only', err); return null; });
+  }
+  return dbPromise;
+};
+
+const remember = (entry: CacheEntry<unknown>) => {
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+};
+
+const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const hit = memory.get(key);
+  if (hit) return hit as CacheEntry<T>;
+  const db = await getDb();
+  if (!db) return null;
+  try {
+    const entry = await requestToPromise<CacheEntry<T> | undefined>(db.transaction(STORE).objectStore(STORE).get(key));
+    if (!entry) return null;
+    remember(entry);
+    return entry;
+  } catch {
+    return null;
+  }
+};
+
+const writeEntry = async (entry: CacheEntry<unknown>) => {
+  remember(entry);
+  const db = await getDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('Failed to persist cache entry', err);
+  }
+};
+
+/** Runs the fetcher for a key at most once at a time and stores the result. */
+const fetchAndStore = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+  const promise = fetcher()
+    .then(data => {
+      writeEntry({ key, data, storedAt: Date.now() });
+      return data;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
+
+const abortReason = () => new DOMException('The query was cancelled', 'AbortError');
+
+const withAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortReason());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortReason());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      err => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+};
+
+export const queryCache = {
+  /**
+   * Stale-while-revalidate lookup: fresh entries are returned as-is, stale
+   * entries are returned immediately and refreshed in the background, and
+   * misses wait for the network. Concurrent calls for one key share a request.
+   */
+  async query<T>(key: string, ttlMs: number, fetcher: () => Promise<T>, options: QueryOptions<T> = {}): Promise<T> {
+    const { signal, onRevalidate } = options;
+    const cached = await withAbort(readEntry<T>(key), signal);
+    if (!cached) return withAbort(fetchAndStore(key, fetcher), signal);
+    if (Date.now() - cached.storedAt < ttlMs) return cached.data;
+
+    const staleSnapshot = JSON.stringify(cached.data);
+    fetchAndStore(key, fetcher)
+      .then(fresh => {
+        if (onRevalidate && !signal?.aborted && JSON.stringify(fresh) !== staleSnapshot) onRevalidate(fresh);
+      })
+      .catch(err => console.warn(`Background refresh failed for ${key}`, err));
+    return cached.data;
+  },
+
+  /** Runs `fetcher` without reading or storing an entry, for results that must not repeat. */
+  uncached<T>(fetcher: () => Promise<T>, options: QueryOptions<T> = {}): Promise<T> {
+    return withAbort(fetcher(), options.signal);
+  },
+
+  async clear(): Promise<void> {
+    memory.clear();
+    const db = await getDb();
+    if (!db) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+};
@@ -0,0 +1,118 @@
+import { Station } from '../types';
+import { ParseError } from './apiErrors';
+import type { Country, Tag } from './radioService';
+
+// radio-browser is a community database: fields are occasionally missing,
+// null, or typed as strings. These helpers coerce what can be salvaged and
+// drop what cannot, so the UI can trust the Station / Country types.
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toText = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+};
+
+const toNumber = (value: unknown, fallback = 0): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : fallback;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return fallback;
+};
+
+const toOptionalCoordinate = (value: unknown, limit: number): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = toNumber(value, NaN);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined;
+};
+
+const toHttpUrl = (value: unknown): string => {
+  const text = toText(value);
+  return /^https?:\/\//i.test(text) ? text : '';
+};
+
+/** Returns a normalised Station, or null when the record is unusable (no id or no stream URL). */
+export const parseStation = (raw: unknown): Station | null => {
+  if (!isRecord(raw)) return null;
+
+  const stationuuid = toText(raw.stationuuid);
+  const url = toHttpUrl(raw.url);
+  const urlResolved = toHttpUrl(raw.url_resolved);
+  if (!stationuuid || (!url && !urlResolved)) return null;
+
+  return {
+    changeuuid: toText(raw.changeuuid),
+    stationuuid,
+    name: toText(raw.name) || 'Unnamed station',
+    url: url || urlResolved,
+    url_resolved: urlResolved || url,
+    homepage: toHttpUrl(raw.homepage),
+    favicon: toHttpUrl(raw.favicon),
+    tags: toText(raw.tags),
+    country: toText(raw.country),
+    countrycode: toText(raw.countrycode).toUpperCase(),
+    state: toText(raw.state),
+    language: toText(raw.language),
+    votes: Math.max(0, toNumber(raw.votes)),
+    codec: toText(raw.codec),
+    bitrate: Math.max(0, toNumber(raw.bitrate)),
+    hls: toNumber(raw.hls) ? 1 : 0,
+    lastcheckok: toNumber(raw.lastcheckok) ? 1 : 0,
+    clickcount: Math.max(0, toNumber(raw.clickcount)),
+    clicktrend: toNumber(raw.clicktrend),
+    geo_lat: toOptionalCoordinate(raw.geo_lat, 90),
+    geo_long: toOptionalCoordinate(raw.geo_long, 180),
+  };
+};
+
+export const parseStations = (raw: unknown): Station[] => {
+  if (!Array.isArray(raw)) throw new ParseError('Expected a list of stations');
+  const seen = new Set<string>();
+  const stations: Station[] = [];
+  for (const item of raw) {
+    const station = parseStation(item);
+    if (station && !seen.has(station.stationuuid)) {
+      seen.add(station.stationuuid);
+      stations.push(station);
+    }
+  }
+  return stations;
+};
+
+export const parseCountry = (raw: unknown): Country | null => {
+  if (!isRecord(raw)) return null;
+  const code = toText(raw.iso_3166_1).toUpperCase();
+  if (!/^[A-Z]{2}$/.test(code)) return null;
+  return {
+    name: toText(raw.name) || code,
+    iso_3166_1: code,
+    stationcount: Math.max(0, toNumber(raw.stationcount)),
+  };
+};
+
+export const parseCountries = (raw: unknown): Country[] => {
+  if (!Array.isArray(raw)) throw new ParseError('Expected a list of countries');
+  return raw
+    .map(parseCountry)
+    .filter((c): c is Country => c !== null);
+};
+
+export const parseTags = (raw: unknown): Tag[] => {
+  if (!Array.isArray(raw)) throw new ParseError('Expected a list of tags');
+  return raw
+    .filter(isRecord)
+    .map(item => ({ name: toText(item.name).toLowerCase(), stationcount: Math.max(0, toNumber(item.stationcount)) }))
+    .filter(tag => tag.name.length > 0);
+};
+
+export const parseVoteResult = (raw: unknown): { ok: boolean; message: string } => {
+  if (!isRecord(raw)) throw new ParseError('Expected a vote result object');
+  return { ok: raw.ok === true || raw.ok === 'true', message: toText(raw.message) };
+};
@@ -1,7 +1,25 @@
 
 import { Station } from '../types';
+import { RadioApiError, NetworkError, HttpError, RateLimitError, ParseError, getErrorMessage } from './apiErrors';
+import { parseStations, parseCountries, parseTags, parseVoteResult } from './radioSchemas';
+import { queryCache, QueryOptions } from './queryCache';
+import { storage } from './storage';
 
-const API_BASE = 'https://de1.api.radio-browser.info/json';
+// Community mirrors of radio-browser.info; extended at runtime from /json/servers
+const DEFAULT_MIRRORS = [
+  'https://de1.api.radio-browser.info',
+  'https://de2.api.radio-browser.info',
+  'https://fi1.api.radio-browser.info',
+  'https://at1.api.radio-browser.info',
+];
+const UUID_BATCH_SIZE = 50;
+const PROBE_TIMEOUT_MS = 4000;
+const REQUEST_TIMEOUT_MS = 15000;
+const CACHE_TTL = {
+  countries: 24 * 60 * 60 * 1000,
+  stations: 10 * 60 * 1000,
+  tags: 60 * 60 * 1000,
+};
 
 export interface Country {
   name: string;
@@ -9,23 +27,268 @@ export interface Country {
   stationcount: number;
 }
 
+export interface Tag {
+  name: string;
+  stationcount: number;
+}
+
 export type StationSort = 'name' | 'votes' | 'bitrate' | 'country' | 'language' | 'clickcount' | 'random';
 
+/** Subset of radio-browser's /stations/search parameters the app uses. */
+export interface StationSearchParams {
+  name?: string;
+  tag?: string;
+  /** Every tag must match. */
+  tagList?: string[];
+  country?: string;
+  countrycode?: string;
+  state?: string;
+  language?: string;
+  codec?: string;
+  bitrateMin?: number;
+  bitrateMax?: number;
+  isHttps?: boolean;
+  limit?: number;
+  offset?: number;
+  order?: StationSort;
+  reverse?: boolean;
+}
+
+export interface MirrorStatus {
+  url: string;
+  healthy: boolean | null;
+  latency: number | null;
+  lastChecked: number | null;
+}
+
+export interface MirrorState {
+  active: string | null;
+  /** Set when a fixed base URL (env or setBaseUrl) bypasses mirror selection. */
+  pinned: string | null;
+  probing: boolean;
+  mirrors: MirrorStatus[];
+}
+
+const normaliseBase = (url: string) => url.trim().replace(/\/+$/, '').replace(/\/json$/, '');
+
+let mirrors: MirrorStatus[] = DEFAULT_MIRRORS.map(url => ({ url, healthy: null, latency: null, lastChecked: null }));
+let activeMirror: string | null = storage.read('mirror');
+let pinnedBase: string | null = process.env.RADIO_API_BASE ? normaliseBase(process.env.RADIO_API_BASE) : null;
+let probing: Promise<string | null> | null = null;
+const mirrorListeners = new Set<(state: MirrorState) => void>();
+
+const getMirrorState = (): MirrorState => ({
+  active: pinnedBase || activeMirror,
+  pinned: pinnedBase,
+  probing: probing !== null,
+  mirrors: mirrors.map(m => ({ ...m })),
+});
+
+const notifyMirrors = () => {
+  const state = getMirrorState();
+  mirrorListeners.forEach(listener => listener(state));
+};
+
+const setActiveMirror = (url: string) => {
+  activeMirror = url;
+  storage.write('mirror', url);
+  notifyMirrors();
+};
+
+const updateMirror = (url: string, patch: Partial<MirrorStatus>) => {
+  mirrors = mirrors.map(m => m.url === url ? { ...m, ...patch } : m);
+};
+
+const fetchWithTimeout = async (url: string, init: RequestInit = {}, timeoutMs = REQUEST_TIMEOUT_MS) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/** Merges the server list advertised by any reachable mirror into the known mirrors. */
+const discoverMirrors = async () => {
+  for (const { url } of mirrors) {
+    try {
+      const response = await fetchWithTimeout(`${url}/json/servers`, {}, PROBE_TIMEOUT_MS);
+      if (!response.ok) continue;
+      const servers: { name?: string }[] = await response.json();
+      const known = new Set(mirrors.map(m => m.url));
+      servers.forEach(server => {
+        if (!server.name) return;
+        const candidate = `https://${server.name}`;
+        if (!known.has(candidate)) {
+          known.add(candidate);
+          mirrors.push({ url: candidate, healthy: null, latency: null, lastChecked: null });
+        }
+      });
+      return;
+    } catch { /* try the next mirror */ }
+  }
+};
+
+const probeMirror = async (url: string) => {
+  const started = performance.now();
+  try {
+    const response = await fetchWithTimeout(`${url}/json/stats`, {}, PROBE_TIMEOUT_MS);
+    updateMirror(url, { healthy: response.ok, latency: response.ok ? Math.round(performance.now() - started) : null, lastChecked: Date.now() });
+  } catch {
+    updateMirror(url, { healthy: false, latency: null, lastChecked: Date.now() });
+  }
+};
+
+/** Active mirror first, then healthy mirrors by latency, then unprobed ones, then known-bad ones. */
+const getCandidates = () => {
+  if (pinnedBase) return [pinnedBase];
+  const rank = (m: MirrorStatus) => m.healthy === true ? 0 : m.healthy === null ? 1 : 2;
+  const ordered = [...mirrors]
+    .sort((a, b) => rank(a) - rank(b) || (a.latency ?? Infinity) - (b.latency ?? Infinity))
+    .map(m => m.url);
+  return activeMirror ? [activeMirror, ...ordered.filter(url => url !== activeMirror)] : ordered;
+};
+
+const ensureMirror = async () => {
+  if (pinnedBase || activeMirror) return;
+  await radioService.probeMirrors();
+};
+
+const toHttpError = (response: Response, url: string) => {
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return new RateLimitError(url, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+  }
+  return new HttpError(response.status, url);
+};
+
+/**
+ * Performs a request against the active mirror and transparently retries the
+ * remaining mirrors on network failures, timeouts, throttling and 5xx responses.
+ * Only GETs are retried: anything else may already have taken effect upstream.
+ * Resolves with the parsed JSON body; rejects with a RadioApiError subclass.
+ */
+const request = async (path: string, init?: RequestInit): Promise<unknown> => {
+  await ensureMirror();
+  const retryable = (init?.method ?? 'GET').toUpperCase() === 'GET';
+  let lastError: RadioApiError | null = null;
+  for (const base of getCandidates()) {
+    const url = `${base}/json${path}`;
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init);
+    } catch (err) {
+      const timedOut = (err as Error).name === 'AbortError';
+      lastError = new NetworkError(timedOut ? `Request to ${url} timed out` : `Request to ${url} failed`, { cause: err, timedOut });
+      if (!pinnedBase) {
+        updateMirror(base, { healthy: false, lastChecked: Date.now() });
+        notifyMirrors();
+      }
+      if (!retryable) throw lastError;
+      continue;
+    }
+
+    if (!response.ok) {
+      const httpError = toHttpError(response, url);
+      // Client errors won't get better on another mirror
+      if (response.status < 500 && response.status !== 429) throw httpError;
+      lastError = httpError;
+      if (!pinnedBase) {
+        updateMirror(base, { healthy: false, lastChecked: Date.now() });
+        notifyMirrors();
+      }
+      if (!retryable) throw lastError;
+      continue;
+    }
+
+    if (!pinnedBase && base !== activeMirror) setActiveMirror(base);
+    try {
+      return await response.json();
+    } catch (err) {
+      throw new ParseError(`Response from ${url} is not valid JSON`, { cause: err });
+    }
+  }
+  throw lastError ?? new NetworkError('No radio-browser mirror available');
+};
+
+// radio-browser matches these without regard to case; anything else (a stream URL, say) must stay as given
+const CASE_INSENSITIVE_PARAMS = new Set(['name', 'tag', 'tagList', 'country', 'countrycode', 'state', 'language', 'codec']);
+
+/** Cache key for a GET path: parameters sorted, and case-folded where the API ignores case, so equivalent queries collide. */
+const toCacheKey = (path: string) => {
+  const [endpoint, search = ''] = path.split('?');
+  const params = Array.from(new URLSearchParams(search).entries())
+    .map(([key, value]) => [key, CASE_INSENSITIVE_PARAMS.has(key) ? value.trim().toLowerCase() : value.trim()])
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  return `${pinnedBase ?? ''}${endpoint.toLowerCase()}${query ? `?${query}` : ''}`;
+};
+
+// A random order is asked for to get a different pick each time
+const isRandomOrder = (path: string) => new URLSearchParams(path.split('?')[1] ?? '').get('order') === 'random';
+
+const cachedRequest = <T>(path: string, ttlMs: number, parse: (raw: unknown) => T, options?: QueryOptions<T>): Promise<T> => {
+  const fetcher = async () => parse(await request(path));
+  return isRandomOrder(path) ? queryCache.uncached(fetcher, options) : queryCache.query(toCacheKey(path), ttlMs, fetcher, options);
+};
+
+// The directory can list one code under several spellings; fold them together
+const foldCountries = (raw: unknown): Country[] => {
+  const byCode = new Map<string, Country>();
+  for (const country of parseCountries(raw)) {
+    if (country.stationcount <= 0) continue;
+    const existing = byCode.get(country.iso_3166_1);
+    if (existing) existing.stationcount += country.stationcount;
+    else byCode.set(country.iso_3166_1, { ...country });
+  }
+  return Array.from(byCode.values()).sort((a, b) => b.stationcount - a.stationcount);
+};
+
 export const radioService = {
-  async getTopStations(limit = 30, offset = 0): Promise<Station[]> {
-    const response = await fetch(`${API_BASE}/stations/topvote/${limit}?offset=${offset}`);
-    return response.json();
+  getMirrorState,
+
+  subscribeMirrors(listener: (state: MirrorState) => void): () => void {
+    mirrorListeners.add(listener);
+    return () => { mirrorListeners.delete(listener); };
+  },
+
+  /** Discovers and probes all mirrors, switching to the fastest healthy one. */
+  async probeMirrors(): Promise<string | null> {
+    if (!probing) {
+      probing = (async () => {
+        await discoverMirrors();
+        await Promise.all(mirrors.map(m => probeMirror(m.url)));
+        const fastest = mirrors
+          .filter(m => m.healthy && m.latency !== null)
+          .sort((a, b) => a.latency! - b.latency!)[0];
+        if (fastest) setActiveMirror(fastest.url);
+        return fastest?.url ?? null;
+      })().finally(() => {
+        probing = null;
+        notifyMirrors();
+      });
+      notifyMirrors();
+    }
+    return probing;
+  },
+
+  /** Manually prefer a mirror; failover still applies if it goes down. */
+  selectMirror(url: string) {
+    setActiveMirror(normaliseBase(url));
+  },
+
+  /** Pins every request to a fixed base URL (e.g. a local stand-in server); pass null to restore mirror selection. */
+  setBaseUrl(url: string | null) {
+    pinnedBase = url ? normaliseBase(url) : null;
+    notifyMirrors();
   },
 
-  async searchStations(params: { 
-    name?: string; 
-    tag?: string; 
-    country?: string; 
-    limit?: number; 
-    offset?: number;
-    order?: StationSort;
-    reverse?: boolean;
-  }): Promise<Station[]> {
+  async getTopStations(limit = 30, offset = 0, options?: QueryOptions<Station[]>): Promise<Station[]> {
+    return cachedRequest(`/stations/topvote/${limit}?offset=${offset}`, CACHE_TTL.stations, parseStations, options);
+  },
+
+  async searchStations(params: StationSearchParams, options?: QueryOptions<Station[]>): Promise<Station[]> {
     const query = new URLSearchParams({
       limit: (params.limit || 30).toString(),
       offset: (params.offset || 0).toString(),
@@ -36,13 +299,20 @@ export const radioService = {
     
     if (params.name) query.append('name', params.name);
     if (params.tag) query.append('tag', params.tag);
+    if (params.tagList?.length) query.append('tagList', params.tagList.join(','));
     if (params.country) query.append('country', params.country);
+    if (params.countrycode) query.append('countrycode', params.countrycode);
+    if (params.state) query.append('state', params.state);
+    if (params.language) query.append('language', params.language);
+    if (params.codec) query.append('codec', params.codec);
+    if (params.bitrateMin !== undefined) query.append('bitrateMin', params.bitrateMin.toString());
+    if (params.bitrateMax !== undefined) query.append('bitrateMax', params.bitrateMax.toString());
+    if (params.isHttps !== undefined) query.append('is_https', params.isHttps.toString());
 
-    const response = await fetch(`${API_BASE}/stations/search?${query.toString()}`);
-    return response.json();
+    return cachedRequest(`/stations/search?${query.toString()}`, CACHE_TTL.stations, parseStations, options);
   },
 
-  async getStationsByCountry(countryCode: string, limit = 30, offset = 0, order: StationSort = 'votes'): Promise<Station[]> {
+  async getStationsByCountry(countryCode: string, limit = 30, offset = 0, order: StationSort = 'votes', options?: QueryOptions<Station[]>): Promise<Station[]> {
     const query = new URLSearchParams({
       limit: limit.toString(),
       offset: offset.toString(),
@@ -50,26 +320,55 @@ export const radioService = {
       order: order,
       reverse: 'true'
     });
-    const response = await fetch(`${API_BASE}/stations/bycountrycodeexact/${countryCode.toLowerCase()}?${query.toString()}`);
-    return response.json();
+    return cachedRequest(`/stations/bycountrycodeexact/${countryCode.toLowerCase()}?${query.toString()}`, CACHE_TTL.stations, parseStations, options);
+  },
+
+  async getStationByUuid(stationuuid: string, options?: QueryOptions<Station[]>): Promise<Station | null> {
+    const stations = await cachedRequest(`/stations/byuuid?uuids=${encodeURIComponent(stationuuid)}`, CACHE_TTL.stations, parseStations, options);
+    return stations[0] ?? null;
+  },
+
+  /** Stations whose stream URL matches exactly; used to match imported playlist entries back to the directory. */
+  async getStationsByUrl(url: string, options?: QueryOptions<Station[]>): Promise<Station[]> {
+    return cachedRequest(`/stations/byurl?url=${encodeURIComponent(url)}`, CACHE_TTL.stations, parseStations, options);
+  },
+
+  /** Fresh records for saved stations; ids the directory no longer knows are simply missing from the result. */
+  async getStationsByUuids(uuids: string[]): Promise<Station[]> {
+    const batches: string[][] = [];
+    for (let i = 0; i < uuids.length; i += UUID_BATCH_SIZE) batches.push(uuids.slice(i, i + UUID_BATCH_SIZE));
+    const results = await Promise.all(batches.map(async batch =>
+      parseStations(await request(`/stations/byuuid?uuids=${batch.map(encodeURIComponent).join(',')}`))
+    ));
+    return results.flat();
+  },
+
+  async getTags(filter: string, limit = 8, options?: QueryOptions<Tag[]>): Promise<Tag[]> {
+    const query = new URLSearchParams({
+      limit: limit.toString(),
+      order: 'stationcount',
+      reverse: 'true',
+      hidebroken: 'true'
+    });
+    const term = filter.trim();
+    const path = term ? `/tags/${encodeURIComponent(term)}` : '/tags';
+    return cachedRequest(`${path}?${query.toString()}`, CACHE_TTL.tags, parseTags, options);
+  },
+
+  async getCountries(options?: QueryOptions<Country[]>): Promise<Country[]> {
+    return cachedRequest('/countries', CACHE_TTL.countries, foldCountries, options);
   },
 
-  async getCountries(): Promise<Country[]> {
-    const response = await fetch(`${API_BASE}/countries`);
-    const data = await response.json();
-    return data
-      .filter((c: any) => c.iso_3166_1 && c.stationcount > 0)
-      .sort((a: any, b: any) => b.stationcount - a.stationcount);
+  clearCache(): Promise<void> {
+    return queryCache.clear();
   },
 
   async voteForStation(stationuuid: string): Promise<{ ok: boolean; message: string }> {
     try {
-      const response = await fetch(`${API_BASE}/vote/${stationuuid}`, { method: 'POST' });
-      const data = await response.json();
-      return data;
+      return parseVoteResult(await request(`/vote/${stationuuid}`, { method: 'POST' }));
     } catch (err) {
       console.error("Voting failed", err);
-      return { ok: false, message: "Network error" };
+      return { ok: false, message: getErrorMessage(err) };
     }
   }
 };
@@ -0,0 +1,54 @@
+import { Recording } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+
+const DB_NAME = 'voxworld-recordings';
+const DB_VERSION = 1;
+const STORE = 'recordings';
+
+const listeners = new Set<() => void>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Unlike the query cache there is no memory fallback: recordings are too big to keep around unsaved
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+      }
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const recordingStore = {
+  /** All recordings, newest first. Blobs are handles; their bytes are only read when played or downloaded. */
+  async list(): Promise<Recording[]> {
+    const db = await getDb();
+    const all = await requestToPromise<Recording[]>(db.transaction(STORE).objectStore(STORE).index('createdAt').getAll());
+    return all.reverse();
+  },
+
+  async save(recording: Recording): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(recording);
+    await transactionDone(tx);
+    notify();
+  },
+
+  async remove(id: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+    notify();
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+};
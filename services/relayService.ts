@@ -0,0 +1,39 @@
+// The stream relay and ICY proxy in server/ run inside `vite` / `vite preview`,
+// or standalone via `npm run relay` with STREAM_RELAY_BASE pointing at it.
+// Static hosts have neither, so availability is checked once and callers fall
+// back to direct playback without it.
+
+const RELAY_BASE = (process.env.STREAM_RELAY_BASE || '').replace(/\/+$/, '');
+
+let availability: Promise<boolean> | null = null;
+
+const withUrl = (path: string, streamUrl: string) => `${RELAY_BASE}${path}?url=${encodeURIComponent(streamUrl)}`;
+
+export const relayService = {
+  // A static host's SPA fallback answers every path with index.html, so insist on JSON
+  isAvailable(): Promise<boolean> {
+    if (!availability) {
+      availability = fetch(`${RELAY_BASE}/api/relay/health`)
+        .then(response => response.ok && (response.headers.get('content-type') ?? '').includes('application/json'))
+        .catch(() => false);
+    }
+    return availability;
+  },
+
+  /** A CORS-readable URL for the stream; Icecast audio shares its connection with the track titles. */
+  getStreamUrl(streamUrl: string, isHls: boolean): string {
+    return withUrl(isHls ? '/api/relay' : '/api/icy/stream', streamUrl);
+  },
+
+  getEventsUrl(streamUrl: string): string {
+    return withUrl('/api/icy/events', streamUrl);
+  },
+
+  getProbeUrl(streamUrl: string): string {
+    return withUrl('/api/probe', streamUrl);
+  },
+
+  isRelayed(url: string): boolean {
+    return url.startsWith(`${RELAY_BASE}/api/relay?`) || url.startsWith(`${RELAY_BASE}/api/icy/stream?`);
+  },
+};
@@ -0,0 +1,452 @@
+import { Station, FavoriteCollection, ListeningSession, AlarmSettings, TrackPlay, Preferences, AudioSettings, EqSettings, DjTurn, DjConversation } from '../types';
+import { parseStation } from './radioSchemas';
+import { parseRecommendation } from './geminiSchemas';
+import { StrategyId, getStrategy } from '../utils/playbackStrategies';
+import { FLAT_EQ, normalizeEqSettings } from '../utils/equalizer';
+
+// All persisted user data lives here. Each slice is stored as JSON under its
+// own `voxworld:<slice>` key, and a single schema version decides which
+// migrations still need to run. Reads always go through a validator: data
+// that fails it is copied to a backup key and replaced by the default, so a
+// bad write can never take the app down on the next start.
+
+export interface StoreSchema {
+  favorites: Station[];
+  collections: FavoriteCollection[];
+  votes: string[];
+  recent: Station[];
+  history: ListeningSession[];
+  alarm: AlarmSettings;
+  mirror: string | null;
+  /** Recently announced songs, newest first, keyed by stationuuid. */
+  tracks: Record<string, TrackPlay[]>;
+  /** The playback strategy that last worked, keyed by stationuuid. */
+  strategies: Record<string, StrategyId>;
+  preferences: Preferences;
+  audio: AudioSettings;
+  /** EQ settings saved for single stations, keyed by stationuuid. */
+  stationEq: Record<string, EqSettings>;
+  /** Measured loudness in dB, keyed by stationuuid; lets normalisation start at the right level. */
+  loudness: Record<string, number>;
+  /** When each command palette entry was last picked, keyed by entry id. */
+  paletteRecent: Record<string, number>;
+  /** Saved AI DJ chats, most recently used first. */
+  djConversations: DjConversation[];
+}
+
+export type StoreKey = keyof StoreSchema;
+
+export interface StorageRecovery {
+  key: StoreKey;
+  backupKey: string;
+  at: number;
+}
+
+export interface StorageStatus {
+  /** False when localStorage is unavailable (e.g. blocked); data then lives for this session only. */
+  available: boolean;
+  /** Set after a write could not be saved even once history was trimmed. */
+  quotaExceeded: boolean;
+  recovered: StorageRecovery[];
+}
+
+const PREFIX = 'voxworld:';
+const VERSION_KEY = `${PREFIX}schema`;
+const BACKUP_PREFIX = `${PREFIX}backup:`;
+export const SCHEMA_VERSION = 1;
+export const MAX_RECENT = 10;
+/** Oldest sessions are dropped beyond this; roughly a year of daily listening. */
+export const MAX_HISTORY = 5000;
+export const MAX_TRACKS_PER_STATION = 25;
+/** Track lists of the least recently heard stations are dropped beyond this. */
+export const MAX_TRACK_STATIONS = 100;
+/** Oldest remembered strategies are dropped beyond this. */
+export const MAX_STRATEGY_STATIONS = 500;
+export const MAX_STATION_EQS = 500;
+export const MAX_CROSSFADE_SECONDS = 15;
+/** Oldest loudness measurements are dropped beyond this. */
+export const MAX_LOUDNESS_STATIONS = 500;
+export const MAX_PALETTE_RECENT = 100;
+/** Least recently used AI DJ chats are dropped beyond this. */
+export const MAX_DJ_CONVERSATIONS = 20;
+/** Earliest turns of a long AI DJ chat are dropped beyond this. */
+export const MAX_DJ_TURNS = 40;
+
+const DEFAULTS: StoreSchema = {
+  favorites: [],
+  collections: [],
+  votes: [],
+  recent: [],
+  history: [],
+  alarm: { enabled: false, time: '07:00', stationuuid: null, rampMinutes: 5 },
+  mirror: null,
+  tracks: {},
+  strategies: {},
+  preferences: { unreachableStations: 'sort', crossfadeSeconds: 3 },
+  audio: { bypass: false, eq: FLAT_EQ, dynamics: 'off', normalize: false },
+  stationEq: {},
+  loudness: {},
+  paletteRecent: {},
+  djConversations: [],
+};
+
+class CorruptDataError extends Error {}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectArray = (value: unknown): unknown[] => {
+  if (!Array.isArray(value)) throw new CorruptDataError('Expected a list');
+  return value;
+};
+
+const uniqueBy = <T,>(items: T[], key: (item: T) => string) => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const id = key(item);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+// Individual bad records are dropped; only a wrong overall shape counts as corruption
+const parseStationList = (value: unknown): Station[] =>
+  uniqueBy(expectArray(value).map(parseStation).filter((s): s is Station => s !== null), s => s.stationuuid);
+
+const parseSession = (raw: unknown): ListeningSession | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.stationuuid !== 'string') return null;
+  if (typeof raw.startedAt !== 'number' || typeof raw.durationMs !== 'number' || raw.durationMs < 0) return null;
+  const text = (value: unknown) => typeof value === 'string' ? value : '';
+  return {
+    id: raw.id,
+    stationuuid: raw.stationuuid,
+    stationName: text(raw.stationName),
+    favicon: text(raw.favicon),
+    country: text(raw.country),
+    countrycode: text(raw.countrycode),
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((t): t is string => typeof t === 'string') : [],
+    language: text(raw.language),
+    startedAt: raw.startedAt,
+    durationMs: raw.durationMs,
+  };
+};
+
+const parseTrack = (raw: unknown): TrackPlay | null => {
+  if (!isRecord(raw) || typeof raw.raw !== 'string' || typeof raw.title !== 'string' || typeof raw.at !== 'number') return null;
+  return { raw: raw.raw, artist: typeof raw.artist === 'string' ? raw.artist : null, title: raw.title, at: raw.at };
+};
+
+const parseDjTurn = (raw: unknown): DjTurn | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.prompt !== 'string' || typeof raw.at !== 'number') return null;
+  const recommendation = parseRecommendation(raw.recommendation);
+  return recommendation ? { id: raw.id, prompt: raw.prompt, recommendation, at: raw.at } : null;
+};
+
+const parseDjConversation = (raw: unknown): DjConversation | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string') return null;
+  const turns = uniqueBy(Array.isArray(raw.turns) ? raw.turns.map(parseDjTurn).filter((t): t is DjTurn => t !== null) : [], t => t.id).slice(-MAX_DJ_TURNS);
+  if (turns.length === 0) return null;
+  const activeTurnId = turns.some(t => t.id === raw.activeTurnId) ? raw.activeTurnId as string : turns[turns.length - 1].id;
+  return { id: raw.id, title: raw.title, turns, activeTurnId, updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : turns[turns.length - 1].at };
+};
+
+const VALIDATORS: { [K in StoreKey]: (value: unknown) => StoreSchema[K] } = {
+  favorites: parseStationList,
+  recent: value => parseStationList(value).slice(0, MAX_RECENT),
+  history: value => uniqueBy(expectArray(value).map(parseSession).filter((s): s is ListeningSession => s !== null), s => s.id).slice(-MAX_HISTORY),
+  votes: value => Array.from(new Set(expectArray(value).filter((id): id is string => typeof id === 'string'))),
+  collections: value => uniqueBy(
+    expectArray(value).filter(isRecord).flatMap((raw): FavoriteCollection[] => {
+      if (typeof raw.id !== 'string' || typeof raw.name !== 'string') return [];
+      const stationIds = Array.isArray(raw.stationIds) ? raw.stationIds.filter((id): id is string => typeof id === 'string') : [];
+      return [{ id: raw.id, name: raw.name, stationIds: Array.from(new Set(stationIds)), createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now() }];
+    }),
+    c => c.id
+  ),
+  alarm: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected alarm settings');
+    const fallback = DEFAULTS.alarm;
+    return {
+      enabled: value.enabled === true,
+      time: typeof value.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value.time) ? value.time : fallback.time,
+      stationuuid: typeof value.stationuuid === 'string' ? value.stationuuid : null,
+      rampMinutes: typeof value.rampMinutes === 'number' && value.rampMinutes >= 0 && value.rampMinutes <= 60 ? value.rampMinutes : fallback.rampMinutes,
+    };
+  },
+  tracks: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected track lists');
+    const entries = Object.entries(value)
+      .map(([uuid, list]): [string, TrackPlay[]] => [uuid, Array.isArray(list) ? list.map(parseTrack).filter((t): t is TrackPlay => t !== null).slice(0, MAX_TRACKS_PER_STATION) : []])
+      .filter(([, list]) => list.length > 0)
+      .sort(([, a], [, b]) => b[0].at - a[0].at)
+      .slice(0, MAX_TRACK_STATIONS);
+    return Object.fromEntries(entries);
+  },
+  strategies: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected strategy choices');
+    const entries = Object.entries(value).filter((entry): entry is [string, StrategyId] => typeof entry[1] === 'string' && getStrategy(entry[1] as StrategyId) !== undefined);
+    return Object.fromEntries(entries.slice(-MAX_STRATEGY_STATIONS));
+  },
+  preferences: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected preferences');
+    const fallback = DEFAULTS.preferences;
+    return {
+      unreachableStations: value.unreachableStations === 'show' || value.unreachableStations === 'sort' || value.unreachableStations === 'hide' ? value.unreachableStations : fallback.unreachableStations,
+      crossfadeSeconds: typeof value.crossfadeSeconds === 'number' && value.crossfadeSeconds >= 0 && value.crossfadeSeconds <= MAX_CROSSFADE_SECONDS ? value.crossfadeSeconds : fallback.crossfadeSeconds,
+    };
+  },
+  audio: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected audio settings');
+    const fallback = DEFAULTS.audio;
+    return {
+      bypass: value.bypass === true,
+      eq: normalizeEqSettings(value.eq) ?? fallback.eq,
+      dynamics: value.dynamics === 'off' || value.dynamics === 'compressor' || value.dynamics === 'limiter' ? value.dynamics : fallback.dynamics,
+      normalize: value.normalize === true,
+    };
+  },
+  stationEq: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected station EQ settings');
+    const entries = Object.entries(value)
+      .map(([uuid, eq]): [string, EqSettings | null] => [uuid, normalizeEqSettings(eq)])
+      .filter((entry): entry is [string, EqSettings] => entry[1] !== null);
+    return Object.fromEntries(entries.slice(-MAX_STATION_EQS));
+  },
+  loudness: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected loudness measurements');
+    const entries = Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]));
+    return Object.fromEntries(entries.slice(-MAX_LOUDNESS_STATIONS));
+  },
+  paletteRecent: value => {
+    if (!isRecord(value)) throw new CorruptDataError('Expected palette history');
+    const entries = Object.entries(value).filter((entry): entry is [string, number] => typeof entry[1] === 'number' && Number.isFinite(entry[1]));
+    return Object.fromEntries(entries.sort(([, a], [, b]) => b - a).slice(0, MAX_PALETTE_RECENT));
+  },
+  djConversations: value => uniqueBy(
+    expectArray(value).map(parseDjConversation).filter((c): c is DjConversation => c !== null), c => c.id
+  ).slice(0, MAX_DJ_CONVERSATIONS),
+  mirror: value => {
+    if (value === null) return null;
+    if (typeof value === 'string') return value;
+    throw new CorruptDataError('Expected a URL');
+  },
+};
+
+interface RawStore {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (raw: RawStore) => void;
+}
+
+// Ordered; each runs once, when the stored schema version is below its own
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Adopt the pre-versioning keys',
+    migrate: raw => {
+      const legacy: [string, StoreKey][] = [
+        ['voxworld_favorites', 'favorites'],
+        ['voxworld_collections', 'collections'],
+        ['voxworld_user_votes', 'votes'],
+        ['voxworld_recently_played', 'recent'],
+      ];
+      for (const [oldKey, key] of legacy) {
+        const value = raw.get(oldKey);
+        if (value !== null && raw.get(PREFIX + key) === null) raw.set(PREFIX + key, value);
+        raw.remove(oldKey);
+      }
+      // The mirror was stored as a bare string rather than JSON
+      const mirror = raw.get('voxworld_api_mirror');
+      if (mirror !== null) raw.set(`${PREFIX}mirror`, JSON.stringify(mirror));
+      raw.remove('voxworld_api_mirror');
+    },
+  },
+];
+
+// localStorage can throw on access (blocked cookies, some private modes); fall back to memory
+const { backend, available } = ((): { backend: RawStore; available: boolean } => {
+  try {
+    const probe = `${PREFIX}probe`;
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return {
+      available: true,
+      backend: {
+        get: key => window.localStorage.getItem(key),
+        set: (key, value) => window.localStorage.setItem(key, value),
+        remove: key => window.localStorage.removeItem(key),
+      },
+    };
+  } catch {
+    const memory = new Map<string, string>();
+    return {
+      available: false,
+      backend: { get: key => memory.get(key) ?? null, set: (key, value) => { memory.set(key, value); }, remove: key => { memory.delete(key); } },
+    };
+  }
+})();
+
+const status: StorageStatus = { available, quotaExceeded: false, recovered: [] };
+const cache = new Map<StoreKey, unknown>();
+const listeners = new Map<StoreKey, Set<(value: unknown) => void>>();
+const statusListeners = new Set<(status: StorageStatus) => void>();
+let ready = false;
+
+const notifyStatus = () => {
+  const snapshot = { ...status, recovered: [...status.recovered] };
+  statusListeners.forEach(listener => listener(snapshot));
+};
+
+const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22);
+
+const runMigrations = () => {
+  const stored = Number(backend.get(VERSION_KEY) ?? 0);
+  const from = Number.isFinite(stored) ? stored : 0;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= from) continue;
+    try {
+      migration.migrate(backend);
+    } catch (err) {
+      // A failed migration leaves the data for the validators to salvage on read
+      console.error(`Storage migration ${migration.version} (${migration.description}) failed`, err);
+    }
+  }
+  if (from < SCHEMA_VERSION) {
+    try { backend.set(VERSION_KEY, String(SCHEMA_VERSION)); } catch (err) { console.error("Failed to record storage version", err); }
+  }
+};
+
+const ensureReady = () => {
+  if (ready) return;
+  ready = true;
+  try {
+    runMigrations();
+  } catch (err) {
+    console.error("Storage migrations could not run", err);
+  }
+};
+
+const backUp = (key: StoreKey, raw: string) => {
+  const backupKey = `${BACKUP_PREFIX}${key}`;
+  try { backend.set(backupKey, raw); } catch { /* the backup is best effort */ }
+  status.recovered.push({ key, backupKey, at: Date.now() });
+  notifyStatus();
+};
+
+/** Frees space by dropping recovery backups, then the older half of the recent list and the oldest quarter of the log. */
+const freeSpace = (): boolean => {
+  let freed = false;
+  for (const key of Object.keys(DEFAULTS) as StoreKey[]) {
+    const backupKey = `${BACKUP_PREFIX}${key}`;
+    if (backend.get(backupKey) !== null) { backend.remove(backupKey); freed = true; }
+  }
+  const trim = <K extends 'recent' | 'history'>(key: K, shrink: (list: StoreSchema[K]) => StoreSchema[K]) => {
+    const list = cache.get(key) as StoreSchema[K] | undefined;
+    if (!list || list.length <= 1) return;
+    const trimmed = shrink(list);
+    try {
+      backend.set(PREFIX + key, JSON.stringify(trimmed));
+      cache.set(key, trimmed);
+      listeners.get(key)?.forEach(listener => listener(trimmed));
+      freed = true;
+    } catch { /* still full */ }
+  };
+  trim('recent', list => list.slice(0, Math.ceil(list.length / 2)));
+  trim('history', list => list.slice(Math.floor(list.length / 4)));
+  return freed;
+};
+
+export const storage = {
+  read<K extends StoreKey>(key: K): StoreSchema[K] {
+    ensureReady();
+    if (cache.has(key)) return cache.get(key) as StoreSchema[K];
+    let value: StoreSchema[K] = DEFAULTS[key];
+    const raw = backend.get(PREFIX + key);
+    if (raw !== null) {
+      try {
+        value = VALIDATORS[key](JSON.parse(raw));
+      } catch (err) {
+        console.error(`Saved ${key} could not be read and were reset`, err);
+        backUp(key, raw);
+        try { backend.set(PREFIX + key, JSON.stringify(value)); } catch { /* retried on the next write */ }
+      }
+    }
+    cache.set(key, value);
+    return value;
+  },
+
+  /** Saves a slice; returns false when it could only be kept in memory. */
+  write<K extends StoreKey>(key: K, value: StoreSchema[K]): boolean {
+    ensureReady();
+    const previous = cache.get(key);
+    cache.set(key, value);
+    if (previous !== value) listeners.get(key)?.forEach(listener => listener(value));
+    const serialized = JSON.stringify(value);
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        backend.set(PREFIX + key, serialized);
+        if (status.quotaExceeded) { status.quotaExceeded = false; notifyStatus(); }
+        return true;
+      } catch (err) {
+        if (!isQuotaError(err)) { console.error(`Failed to save ${key}`, err); return false; }
+        if (attempt === 0 && freeSpace()) continue;
+      }
+    }
+    if (!status.quotaExceeded) { status.quotaExceeded = true; notifyStatus(); }
+    return false;
+  },
+
+  subscribe<K extends StoreKey>(key: K, listener: (value: StoreSchema[K]) => void): () => void {
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    const entry = listener as (value: unknown) => void;
+    listeners.get(key)!.add(entry);
+    return () => { listeners.get(key)?.delete(entry); };
+  },
+
+  getStatus(): StorageStatus {
+    ensureReady();
+    return { ...status, recovered: [...status.recovered] };
+  },
+
+  subscribeStatus(listener: (status: StorageStatus) => void): () => void {
+    statusListeners.add(listener);
+    return () => { statusListeners.delete(listener); };
+  },
+
+  /** Rough size of everything VoxWorld keeps in localStorage, in bytes. */
+  getUsage(): number {
+    let total = 0;
+    try {
+      for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i);
+        if (key?.startsWith(PREFIX)) total += (key.length + (window.localStorage.getItem(key)?.length ?? 0)) * 2;
+      }
+    } catch { /* unavailable */ }
+    return total;
+  },
+
+  /** Forgets recovery notices and deletes the backups they point to. */
+  discardBackups() {
+    status.recovered.forEach(r => { try { backend.remove(r.backupKey); } catch { /* ignore */ } });
+    status.recovered = [];
+    notifyStatus();
+  },
+};
+
+// Keep tabs in step: another tab's write replaces our cached copy
+window.addEventListener('storage', (event) => {
+  if (!event.key?.startsWith(PREFIX) || event.key.startsWith(BACKUP_PREFIX)) return;
+  const key = event.key.slice(PREFIX.length) as StoreKey;
+  if (!(key in DEFAULTS)) return;
+  cache.delete(key);
+  const value = storage.read(key);
+  listeners.get(key)?.forEach(listener => listener(value));
+});
@@ -28,3 +28,110 @@ export interface GeminiRecommendation {
   description: string;
   suggestedCountries: string[];
 }
+
+export interface FavoriteCollection {
+  id: string;
+  name: string;
+  /** Station uuids in the user's manual order; every entry is also a favorite. */
+  stationIds: string[];
+  createdAt: number;
+}
+
+/** One uninterrupted stretch of listening, with the station's details as they were at the time. */
+export interface ListeningSession {
+  id: string;
+  stationuuid: string;
+  stationName: string;
+  favicon: string;
+  country: string;
+  countrycode: string;
+  tags: string[];
+  language: string;
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface AlarmSettings {
+  enabled: boolean;
+  /** Local wall-clock time, "HH:MM". The alarm repeats daily while enabled. */
+  time: string;
+  /** Favorite to wake up to; null picks a random favorite each time. */
+  stationuuid: string | null;
+  rampMinutes: number;
+}
+
+/** A volume ramp applied on top of the user's volume, from `from` to `to` (0-1) between two timestamps. */
+export interface VolumeEnvelope {
+  startsAt: number;
+  endsAt: number;
+  from: number;
+  to: number;
+}
+
+/** A song announced by a station's stream metadata. */
+export interface TrackPlay {
+  /** The title exactly as the stream sent it, usually "Artist - Title". */
+  raw: string;
+  artist: string | null;
+  title: string;
+  at: number;
+}
+
+/** What the station lists do with streams the health check couldn't reach. */
+export type UnreachableStationsMode = 'show' | 'sort' | 'hide';
+
+export interface Preferences {
+  unreachableStations: UnreachableStationsMode;
+  /** Crossfade between stations; 0 switches as soon as the new one plays. */
+  crossfadeSeconds: number;
+}
+
+/** A captured stretch of a broadcast, kept in IndexedDB. */
+export interface Recording {
+  id: string;
+  fileName: string;
+  stationuuid: string;
+  stationName: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationMs: number;
+  createdAt: number;
+  blob: Blob;
+}
+
+export type DynamicsMode = 'off' | 'compressor' | 'limiter';
+
+export interface EqSettings {
+  /** Preset the gains came from; 'custom' once a band has been moved by hand. */
+  preset: string;
+  /** Gain in dB for each of the ten graphic EQ bands, lowest first. */
+  gains: number[];
+}
+
+export interface AudioSettings {
+  /** Sends the stream straight to the speakers, skipping EQ, dynamics and normalisation. */
+  bypass: boolean;
+  /** Used for every station without an EQ of its own. */
+  eq: EqSettings;
+  dynamics: DynamicsMode;
+  normalize: boolean;
+}
+
+/** One exchange with the AI DJ: what was asked, and the recommendation that came back. */
+export interface DjTurn {
+  id: string;
+  prompt: string;
+  recommendation: GeminiRecommendation;
+  at: number;
+}
+
+/** A saved AI DJ chat; every turn refines the recommendation of the turn before it. */
+export interface DjConversation {
+  id: string;
+  /** The opening prompt, shown in the list of saved conversations. */
+  title: string;
+  turns: DjTurn[];
+  /** The turn whose recommendation is showing; the next prompt continues from it. */
+  activeTurnId: string | null;
+  updatedAt: number;
+}
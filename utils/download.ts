@@ -0,0 +1,19 @@
+/** Replaces characters that file systems reject in names. */
+export const toSafeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '-').trim();
+
+/** Saves a blob through a temporary link, as if the user had clicked a download. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Human-readable size, e.g. "3.4 MB". */
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,52 @@
+import { EqSettings } from '../types';
+
+/** Centre frequencies of the graphic EQ, in Hz. */
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_DB = 12;
+
+export interface EqPreset {
+  id: string;
+  label: string;
+  gains: number[];
+}
+
+export const EQ_PRESETS: EqPreset[] = [
+  { id: 'flat', label: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { id: 'bass', label: 'Bass boost', gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { id: 'treble', label: 'Treble boost', gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { id: 'speech', label: 'Speech', gains: [-6, -4, -2, 0, 2, 4, 4, 3, 1, 0] },
+  { id: 'rock', label: 'Rock', gains: [4, 3, 2, 0, -1, -1, 1, 3, 4, 4] },
+  { id: 'pop', label: 'Pop', gains: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2] },
+  { id: 'jazz', label: 'Jazz', gains: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  { id: 'classical', label: 'Classical', gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+  { id: 'electronic', label: 'Electronic', gains: [5, 4, 1, 0, -2, 1, 0, 1, 4, 5] },
+  { id: 'late-night', label: 'Late night', gains: [-4, -2, 0, 1, 2, 2, 1, 0, -2, -4] },
+];
+
+export const FLAT_EQ: EqSettings = { preset: 'flat', gains: EQ_PRESETS[0].gains };
+
+export const getEqPreset = (id: string) => EQ_PRESETS.find(preset => preset.id === id);
+
+export const clampEqGain = (db: number) => Math.max(-EQ_MAX_DB, Math.min(EQ_MAX_DB, Math.round(db * 2) / 2));
+
+/** Settings after moving one band by hand. */
+export const withBandGain = (eq: EqSettings, band: number, db: number): EqSettings => ({
+  preset: 'custom',
+  gains: eq.gains.map((gain, i) => i === band ? clampEqGain(db) : gain),
+});
+
+/** Repairs stored gains: wrong lengths are padded or cut and values clamped. */
+export const normalizeEqSettings = (raw: unknown): EqSettings | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { preset, gains } = raw as { preset?: unknown; gains?: unknown };
+  if (!Array.isArray(gains)) return null;
+  return {
+    preset: typeof preset === 'string' ? preset : 'custom',
+    gains: EQ_BANDS.map((_, i) => typeof gains[i] === 'number' && Number.isFinite(gains[i]) ? clampEqGain(gains[i]) : 0),
+  };
+};
+
+/** Cut applied before the filters so the loudest boost doesn't clip. */
+export const eqHeadroomDb = (gains: number[]) => -Math.max(0, ...gains);
+
+export const formatBandFrequency = (hz: number) => hz >= 1000 ? `${hz / 1000}k` : `${hz}`;
@@ -0,0 +1,92 @@
+// Fuzzy matching for the command palette: the query's characters must appear
+// in order, and matches that start words, run on consecutively or sit at the
+// very beginning score higher.
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_/.,&(·#@]/.test(text[index - 1]);
+
+const isSubsequence = (query: string, text: string, from: number) => {
+  for (const char of query) {
+    from = text.indexOf(char, from);
+    if (from === -1) return false;
+    from += 1;
+  }
+  return true;
+};
+
+/** Scores `text` against `query`; null when the query's characters don't all appear in order. */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = normalize(query).replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = normalize(text);
+  if (!isSubsequence(q, t, 0)) return null;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (let qi = 0; qi < q.length; qi++) {
+    let index = t.indexOf(q[qi], from);
+    // Unless it continues the previous match, jump ahead to an occurrence that starts a word,
+    // as long as the rest of the query still fits after it
+    if (index !== previous + 1 && !isWordStart(t, index)) {
+      for (let i = t.indexOf(q[qi], index + 1); i !== -1; i = t.indexOf(q[qi], i + 1)) {
+        if (isWordStart(t, i) && isSubsequence(q.slice(qi + 1), t, i + 1)) { index = i; break; }
+      }
+    }
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (isWordStart(t, index)) score += 4;
+    previous = index;
+    from = index + 1;
+  }
+
+  const contiguous = t.indexOf(normalize(query).trim());
+  if (contiguous === 0) score += 12;
+  else if (contiguous > 0) score += isWordStart(t, contiguous) ? 8 : 4;
+  // Among equal matches, the shorter (more specific) text wins
+  return score - t.length * 0.02;
+};
+
+export interface RankableItem {
+  id: string;
+  title: string;
+  /** Extra text that can match, e.g. a country or a station's tags. */
+  keywords?: string;
+  /** Items never shown without a query, such as the full country list. */
+  searchOnly?: boolean;
+}
+
+const RECENCY_HALF_LIFE_MS = 3 * 24 * 60 * 60 * 1000;
+const RECENCY_WEIGHT = 10;
+// Keyword hits count, but less than hits in the title
+const KEYWORD_FACTOR = 0.6;
+
+/** Boost for something used at `at`: full weight now, half after three days, fading from there. */
+export const recencyBoost = (at: number | undefined, now = Date.now()) =>
+  at === undefined ? 0 : RECENCY_WEIGHT * Math.pow(0.5, Math.max(0, now - at) / RECENCY_HALF_LIFE_MS);
+
+/**
+ * Matching items, best first. `lastUsed` maps item ids to when they were last
+ * picked or played; recent ones are boosted, and lead the list when the query
+ * is empty.
+ */
+export const rankItems = <T extends RankableItem,>(items: T[], query: string, lastUsed: Record<string, number>, limit: number, now = Date.now()): T[] => {
+  const scored: { item: T; score: number; order: number }[] = [];
+  items.forEach((item, order) => {
+    const boost = recencyBoost(lastUsed[item.id], now);
+    if (!query.trim()) {
+      if (!item.searchOnly) scored.push({ item, score: boost, order });
+      return;
+    }
+    const title = fuzzyScore(query, item.title);
+    const keywords = item.keywords ? fuzzyScore(query, item.keywords) : null;
+    const best = Math.max(title ?? -Infinity, keywords !== null ? keywords * KEYWORD_FACTOR : -Infinity);
+    if (best === -Infinity) return;
+    scored.push({ item, score: best + boost, order });
+  });
+  return scored
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, limit)
+    .map(entry => entry.item);
+};
@@ -0,0 +1,89 @@
+import { ListeningSession } from '../types';
+
+export interface ListeningStats {
+  totalMs: number;
+  sessionCount: number;
+  countriesVisited: number;
+  byCountry: { code: string; name: string; ms: number }[];
+  topTags: { tag: string; ms: number }[];
+  topStations: { stationuuid: string; name: string; favicon: string; ms: number; sessions: number }[];
+  /** Milliseconds listened, indexed [weekday 0 = Sunday][hour 0-23] in local time. */
+  heatmap: number[][];
+}
+
+const HOUR_MS = 3_600_000;
+const TOP_LIMIT = 8;
+
+const rank = <T extends { ms: number }>(items: Iterable<T>, limit = TOP_LIMIT) =>
+  Array.from(items).sort((a, b) => b.ms - a.ms).slice(0, limit);
+
+/** Spreads a session across the local clock hours it covers. */
+const addToHeatmap = (heatmap: number[][], startedAt: number, durationMs: number) => {
+  let cursor = startedAt;
+  const end = startedAt + durationMs;
+  while (cursor < end) {
+    const date = new Date(cursor);
+    const nextHour = new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours() + 1).getTime();
+    const slice = Math.min(end, nextHour) - cursor;
+    heatmap[date.getDay()][date.getHours()] += slice;
+    cursor += slice;
+  }
+};
+
+export const computeListeningStats = (sessions: ListeningSession[]): ListeningStats => {
+  const countries = new Map<string, { code: string; name: string; ms: number }>();
+  const tags = new Map<string, { tag: string; ms: number }>();
+  const stations = new Map<string, ListeningStats['topStations'][number]>();
+  const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  let totalMs = 0;
+
+  for (const session of sessions) {
+    totalMs += session.durationMs;
+    addToHeatmap(heatmap, session.startedAt, session.durationMs);
+
+    const code = session.countrycode || '??';
+    const country = countries.get(code) ?? { code, name: session.country || 'Unknown', ms: 0 };
+    country.ms += session.durationMs;
+    countries.set(code, country);
+
+    for (const tag of session.tags) {
+      const entry = tags.get(tag) ?? { tag, ms: 0 };
+      entry.ms += session.durationMs;
+      tags.set(tag, entry);
+    }
+
+    // The latest session wins for name and logo, so renamed stations show their current name
+    const station = stations.get(session.stationuuid) ?? { stationuuid: session.stationuuid, name: '', favicon: '', ms: 0, sessions: 0 };
+    station.name = session.stationName;
+    station.favicon = session.favicon || station.favicon;
+    station.ms += session.durationMs;
+    station.sessions += 1;
+    stations.set(session.stationuuid, station);
+  }
+
+  return {
+    totalMs,
+    sessionCount: sessions.length,
+    countriesVisited: Array.from(countries.keys()).filter(code => code !== '??').length,
+    byCountry: rank(countries.values(), Infinity),
+    topTags: rank(tags.values()),
+    topStations: rank(stations.values()),
+    heatmap,
+  };
+};
+
+export const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(ms / HOUR_MS);
+  const rest = Math.round((ms - hours * HOUR_MS) / 60_000);
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+/** Matches a session against free text over station name, country, language and tags. */
+export const matchesHistoryQuery = (session: ListeningSession, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [session.stationName, session.country, session.countrycode, session.language, ...session.tags]
+    .some(field => field.toLowerCase().includes(needle));
+};
@@ -0,0 +1,53 @@
+import { Station } from '../types';
+
+export interface StationPoint {
+  station: Station;
+  x: number;
+  y: number;
+}
+
+export interface StationCluster {
+  id: string;
+  x: number;
+  y: number;
+  stations: Station[];
+  /** Distance from the center to the farthest member; 0 when they all share one spot. */
+  extent: number;
+}
+
+/** radio-browser reports missing coordinates as null (and occasionally as 0,0). */
+export const hasCoordinates = (station: Station): boolean => {
+  const { geo_lat: lat, geo_long: lng } = station;
+  if (typeof lat !== 'number' || typeof lng !== 'number') return false;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return false;
+  if (lat === 0 && lng === 0) return false;
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+};
+
+/**
+ * Greedy grid clustering in projected space. `radius` is expressed in the same
+ * units as the points, so callers divide their on-screen radius by the zoom
+ * factor to make clusters split apart as the user zooms in.
+ */
+export const clusterPoints = (points: StationPoint[], radius: number): StationCluster[] => {
+  if (radius <= 0) {
+    return points.map(p => ({ id: p.station.stationuuid, x: p.x, y: p.y, stations: [p.station], extent: 0 }));
+  }
+
+  const cells = new Map<string, StationPoint[]>();
+  for (const point of points) {
+    const key = `${Math.floor(point.x / radius)}:${Math.floor(point.y / radius)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  }
+
+  return Array.from(cells.values()).map(cell => {
+    const x = cell.reduce((acc, p) => acc + p.x, 0) / cell.length;
+    const y = cell.reduce((acc, p) => acc + p.y, 0) / cell.length;
+    const stations = cell.map(p => p.station);
+    const id = cell.length === 1 ? stations[0].stationuuid : `cluster-${stations[0].stationuuid}-${cell.length}`;
+    const extent = cell.reduce((max, p) => Math.max(max, Math.hypot(p.x - x, p.y - y)), 0);
+    return { id, x, y, stations, extent };
+  });
+};
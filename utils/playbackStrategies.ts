@@ -0,0 +1,142 @@
+import { Station } from '../types';
+
+// Every way the player knows to get a station's audio going, in the order
+// worth trying them. Strategies only describe the attempt; the pipeline in
+// services/playbackPipeline.ts runs them against the audio element.
+
+export type StrategyId =
+  | 'direct'
+  | 'https-upgrade'
+  | 'native-hls'
+  | 'original-url'
+  | 'relay'
+  | 'no-cors'
+  | 'no-cors-original'
+  | 'shoutcast';
+
+export interface StrategyContext {
+  /** Page served over https, so plain http media is blocked as mixed content. */
+  securePage: boolean;
+  relayAvailable: boolean;
+  /** Builds the relay URL; only called when the relay is available. */
+  relayUrl: (streamUrl: string, isHls: boolean) => string;
+  now: number;
+}
+
+export interface PlaybackStrategy {
+  id: StrategyId;
+  label: string;
+  /** Requests the stream with CORS, so Web Audio can read the samples. */
+  cors: boolean;
+  /** Plays through hls.js rather than handing the URL to the audio element. */
+  hls: boolean;
+  applies: (station: Station, context: StrategyContext) => boolean;
+  url: (station: Station, context: StrategyContext) => string;
+}
+
+export interface PlannedAttempt {
+  strategy: PlaybackStrategy;
+  url: string;
+}
+
+export const isHlsUrl = (url: string) => /\.m3u8/i.test(url);
+export const isHlsStation = (station: Station) => isHlsUrl(station.url_resolved || station.url) || isHlsUrl(station.url);
+
+const resolvedUrl = (station: Station) => station.url_resolved || station.url;
+const isMixedContent = (url: string, context: StrategyContext) => context.securePage && url.startsWith('http://');
+const toHttps = (url: string) => url.replace(/^http:\/\//, 'https://');
+
+/** Shoutcast v1 serves its status page on `/`; `/;` asks for the raw stream. */
+export const toShoutcastUrl = (url: string, now: number) => {
+  let result = url;
+  if (!result.endsWith(';') && !result.includes('?')) result = result.endsWith('/') ? `${result};` : `${result}/;`;
+  return `${result}${result.includes('?') ? '&' : '?'}cb=${now}`;
+};
+
+export const PLAYBACK_STRATEGIES: PlaybackStrategy[] = [
+  {
+    id: 'direct',
+    label: 'Direct',
+    cors: true,
+    hls: true,
+    applies: (station, context) => !isMixedContent(resolvedUrl(station), context),
+    url: resolvedUrl,
+  },
+  {
+    id: 'https-upgrade',
+    label: 'Forced https',
+    cors: true,
+    hls: true,
+    applies: (station, context) => isMixedContent(resolvedUrl(station), context),
+    url: station => toHttps(resolvedUrl(station)),
+  },
+  {
+    id: 'native-hls',
+    label: 'Native HLS',
+    cors: true,
+    hls: false,
+    applies: isHlsStation,
+    url: (station, context) => isMixedContent(resolvedUrl(station), context) ? toHttps(resolvedUrl(station)) : resolvedUrl(station),
+  },
+  {
+    id: 'original-url',
+    label: 'Listed URL',
+    cors: true,
+    hls: true,
+    applies: station => station.url !== resolvedUrl(station),
+    url: station => station.url,
+  },
+  {
+    id: 'relay',
+    label: 'Relay',
+    cors: true,
+    hls: true,
+    applies: (_station, context) => context.relayAvailable,
+    url: (station, context) => context.relayUrl(resolvedUrl(station), isHlsStation(station)),
+  },
+  {
+    id: 'no-cors',
+    label: 'Without CORS',
+    cors: false,
+    hls: false,
+    applies: () => true,
+    url: resolvedUrl,
+  },
+  {
+    id: 'no-cors-original',
+    label: 'Listed URL without CORS',
+    cors: false,
+    hls: false,
+    applies: station => station.url !== resolvedUrl(station),
+    url: station => station.url,
+  },
+  {
+    id: 'shoutcast',
+    label: 'Shoutcast stream path',
+    cors: false,
+    hls: false,
+    applies: station => !isHlsStation(station),
+    url: (station, context) => toShoutcastUrl(station.url, context.now),
+  },
+];
+
+export const getStrategy = (id: StrategyId): PlaybackStrategy | undefined => PLAYBACK_STRATEGIES.find(s => s.id === id);
+
+/**
+ * The attempts to make for a station: applicable strategies in order, the one
+ * that last worked moved to the front, and duplicates of an earlier attempt
+ * (same URL, CORS mode and player) left out. Strategies without CORS stay at
+ * the back even when remembered: their audio is unreadable by Web Audio.
+ */
+export const planAttempts = (station: Station, context: StrategyContext, preferred?: StrategyId | null): PlannedAttempt[] => {
+  if (preferred && !getStrategy(preferred)?.cors) preferred = null;
+  const ordered = [...PLAYBACK_STRATEGIES].sort((a, b) => Number(b.id === preferred) - Number(a.id === preferred));
+  const seen = new Set<string>();
+  return ordered.filter(s => s.applies(station, context)).flatMap(strategy => {
+    const url = strategy.url(station, context);
+    const key = `${url}|${strategy.cors}|${strategy.hls && isHlsUrl(url)}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ strategy, url }];
+  });
+};
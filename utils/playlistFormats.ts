@@ -0,0 +1,164 @@
+import { Station } from '../types';
+import { parseStation } from '../services/radioSchemas';
+
+// Playlist files other players understand. Only the VoxWorld JSON format keeps
+// full Station records; the others carry a stream URL and at best a title, so
+// their entries are matched back to the directory on import.
+
+export type PlaylistFormat = 'm3u' | 'm3u-ext' | 'pls' | 'xspf' | 'json';
+
+export const PLAYLIST_FORMATS: { id: PlaylistFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'm3u-ext', label: 'Extended M3U', extension: 'm3u', mime: 'audio/x-mpegurl' },
+  { id: 'm3u', label: 'M3U', extension: 'm3u', mime: 'audio/x-mpegurl' },
+  { id: 'pls', label: 'PLS', extension: 'pls', mime: 'audio/x-scpls' },
+  { id: 'xspf', label: 'XSPF', extension: 'xspf', mime: 'application/xspf+xml' },
+  { id: 'json', label: 'VoxWorld JSON', extension: 'json', mime: 'application/json' },
+];
+
+const JSON_FORMAT_ID = 'voxworld-playlist';
+const JSON_FORMAT_VERSION = 1;
+
+export interface PlaylistEntry {
+  url: string;
+  title: string;
+  /** Present only for VoxWorld JSON, which round-trips the whole record. */
+  station?: Station;
+}
+
+const streamUrl = (station: Station) => station.url_resolved || station.url;
+
+// Playlist formats are line based; a title with a newline would break the file
+const singleLine = (text: string) => text.replace(/[\r\n]+/g, ' ').trim();
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const serializePlaylist = (format: PlaylistFormat, stations: Station[], title: string): string => {
+  switch (format) {
+    case 'm3u':
+      return stations.map(streamUrl).join('\n') + '\n';
+    case 'm3u-ext':
+      return [
+        '#EXTM3U',
+        `#PLAYLIST:${singleLine(title)}`,
+        ...stations.flatMap(s => [
+          `#EXTINF:-1${s.favicon ? ` tvg-logo="${s.favicon}"` : ''}${s.tags ? ` group-title="${singleLine(s.tags.split(',')[0])}"` : ''},${singleLine(s.name)}`,
+          streamUrl(s),
+        ]),
+      ].join('\n') + '\n';
+    case 'pls':
+      return [
+        '[playlist]',
+        ...stations.flatMap((s, i) => [`File${i + 1}=${streamUrl(s)}`, `Title${i + 1}=${singleLine(s.name)}`, `Length${i + 1}=-1`]),
+        `NumberOfEntries=${stations.length}`,
+        'Version=2',
+      ].join('\n') + '\n';
+    case 'xspf':
+      return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+        `  <title>${escapeXml(title)}</title>`,
+        '  <trackList>',
+        ...stations.map(s => [
+          '    <track>',
+          `      <location>${escapeXml(streamUrl(s))}</location>`,
+          `      <title>${escapeXml(s.name)}</title>`,
+          s.favicon ? `      <image>${escapeXml(s.favicon)}</image>` : '',
+          s.homepage ? `      <info>${escapeXml(s.homepage)}</info>` : '',
+          '    </track>',
+        ].filter(Boolean).join('\n')),
+        '  </trackList>',
+        '</playlist>',
+      ].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify({
+        format: JSON_FORMAT_ID,
+        version: JSON_FORMAT_VERSION,
+        name: title,
+        exportedAt: new Date().toISOString(),
+        stations,
+      }, null, 2);
+  }
+};
+
+const isStreamUrl = (text: string) => /^https?:\/\//i.test(text);
+
+const parseM3u = (text: string): PlaylistEntry[] => {
+  const entries: PlaylistEntry[] = [];
+  let pendingTitle = '';
+  for (const line of text.split(/\r?\n/).map(l => l.trim())) {
+    if (line.startsWith('#EXTINF:')) {
+      // The title follows the first comma that is not inside a quoted attribute
+      const match = line.match(/^#EXTINF:[^,"]*(?:"[^"]*"[^,"]*)*,(.*)$/);
+      pendingTitle = match ? match[1].trim() : '';
+    } else if (line && !line.startsWith('#')) {
+      if (isStreamUrl(line)) entries.push({ url: line, title: pendingTitle });
+      pendingTitle = '';
+    }
+  }
+  return entries;
+};
+
+const parsePls = (text: string): PlaylistEntry[] => {
+  const files = new Map<number, string>();
+  const titles = new Map<number, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.trim().match(/^(File|Title)(\d+)=(.*)$/i);
+    if (!match) continue;
+    const index = Number(match[2]);
+    (match[1].toLowerCase() === 'file' ? files : titles).set(index, match[3].trim());
+  }
+  return Array.from(files.entries())
+    .sort(([a], [b]) => a - b)
+    .filter(([, url]) => isStreamUrl(url))
+    .map(([index, url]) => ({ url, title: titles.get(index) ?? '' }));
+};
+
+const parseXspf = (text: string): PlaylistEntry[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('This XSPF file is not valid XML.');
+  return Array.from(doc.getElementsByTagName('track'))
+    .map(track => ({
+      url: track.getElementsByTagName('location')[0]?.textContent?.trim() ?? '',
+      title: track.getElementsByTagName('title')[0]?.textContent?.trim() ?? '',
+    }))
+    .filter(entry => isStreamUrl(entry.url));
+};
+
+const parseJson = (text: string): PlaylistEntry[] => {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch { throw new Error('This JSON file could not be read.'); }
+  // A bare array of stations (e.g. the old favorites storage) is accepted too
+  const list = Array.isArray(data) ? data : (data as { stations?: unknown })?.stations;
+  if (!Array.isArray(list)) throw new Error('This JSON file is not a VoxWorld playlist.');
+  return list
+    .map(raw => parseStation(raw))
+    .filter((s): s is Station => s !== null)
+    .map(station => ({ url: streamUrl(station), title: station.name, station }));
+};
+
+const detectFormat = (text: string, fileName: string): PlaylistFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'm3u' || extension === 'm3u8') return 'm3u';
+  if (extension === 'pls') return 'pls';
+  if (extension === 'xspf') return 'xspf';
+  if (extension === 'json') return 'json';
+  const head = text.trimStart().slice(0, 200).toLowerCase();
+  if (head.startsWith('{') || head.startsWith('[{')) return 'json';
+  if (head.startsWith('[playlist]')) return 'pls';
+  if (head.startsWith('<?xml') || head.startsWith('<playlist')) return 'xspf';
+  if (head.startsWith('#extm3u') || isStreamUrl(head)) return 'm3u';
+  return null;
+};
+
+/** Reads any supported playlist file into entries; throws with a user-facing message when it can't. */
+export const parsePlaylist = (text: string, fileName: string): PlaylistEntry[] => {
+  switch (detectFormat(text, fileName)) {
+    case 'm3u':
+    case 'm3u-ext': return parseM3u(text);
+    case 'pls': return parsePls(text);
+    case 'xspf': return parseXspf(text);
+    case 'json': return parseJson(text);
+    default: throw new Error('Unrecognised playlist format. Use M3U, PLS, XSPF or VoxWorld JSON.');
+  }
+};
@@ -0,0 +1,71 @@
+import type { StationSort } from '../services/radioService';
+
+// URL scheme: the path names the station (if any), the query string names the view.
+//   /                               global top
+//   /?q=%23jazz%20lang:french       search
+//   /?country=RO&sort=bitrate       country
+//   /?genre=nu-jazz                 AI recommendation
+//   /station/<stationuuid>?country=RO
+// Keeping the view in the query string means a shared station link restores
+// exactly what the sender was looking at.
+
+export type ViewType = 'top' | 'search' | 'country' | 'ai';
+
+export interface AppRoute {
+  view: ViewType;
+  query: string;
+  country: string | null;
+  genre: string | null;
+  sort: StationSort;
+  stationId: string | null;
+}
+
+const STATION_PATH = /^\/station\/([0-9a-f-]{36})\/?$/i;
+const SORTS: StationSort[] = ['name', 'votes', 'bitrate', 'country', 'language', 'clickcount', 'random'];
+const DEFAULT_SORT: StationSort = 'votes';
+
+export const parseRoute = ({ pathname, search }: { pathname: string; search: string }): AppRoute => {
+  const params = new URLSearchParams(search);
+  const stationMatch = pathname.match(STATION_PATH);
+  const query = params.get('q')?.trim() || '';
+  const country = params.get('country')?.trim().toUpperCase() || null;
+  const genre = params.get('genre')?.trim() || null;
+  const sortParam = params.get('sort') as StationSort | null;
+
+  return {
+    view: country ? 'country' : query ? 'search' : genre ? 'ai' : 'top',
+    query: country ? '' : query,
+    country: country && /^[A-Z]{2}$/.test(country) ? country : null,
+    genre: country || query ? null : genre,
+    sort: sortParam && SORTS.includes(sortParam) ? sortParam : DEFAULT_SORT,
+    stationId: stationMatch ? stationMatch[1].toLowerCase() : null,
+  };
+};
+
+const buildViewQuery = (route: Omit<AppRoute, 'stationId'>) => {
+  const params = new URLSearchParams();
+  if (route.view === 'search' && route.query) params.set('q', route.query);
+  if (route.view === 'country' && route.country) params.set('country', route.country);
+  if (route.view === 'ai' && route.genre) params.set('genre', route.genre);
+  if (route.sort !== DEFAULT_SORT) params.set('sort', route.sort);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const buildRoutePath = (route: AppRoute): string =>
+  `${route.stationId ? `/station/${route.stationId}` : '/'}${buildViewQuery(route)}`;
+
+/**
+ * Whether moving between two routes deserves its own history entry. Refining
+ * a search or changing the sort order replaces the current entry instead, so
+ * Back doesn't step through every keystroke.
+ */
+export const isNewHistoryEntry = (from: AppRoute, to: AppRoute): boolean =>
+  from.view !== to.view ||
+  from.country !== to.country ||
+  from.genre !== to.genre ||
+  from.stationId !== to.stationId;
+
+/** Absolute link to a station that also restores the given view. */
+export const buildStationShareUrl = (stationId: string, view?: Omit<AppRoute, 'stationId'>): string =>
+  `${window.location.origin}/station/${stationId}${view ? buildViewQuery(view) : ''}`;
@@ -0,0 +1,232 @@
+import { Station } from '../types';
+import type { StationSearchParams } from '../services/radioService';
+
+// Header search grammar, tokens separated by whitespace (values may be "quoted"):
+//   #jazz            tag (several tags must all match)
+//   @France  @FR     country by name or ISO code
+//   lang:french      language        codec:aac    audio codec
+//   state:bavaria    region          tag:"hip hop"
+//   bitrate>=128     also >, <, <=, = and bitrate:128 (minimum)
+//   https:yes        hls:no          booleans accept yes/no, true/false, on/off, 1/0
+// Anything else is matched against the station name.
+
+export type SearchFilter =
+  | { key: 'tag'; value: string }
+  | { key: 'country'; value: string }
+  | { key: 'countrycode'; value: string }
+  | { key: 'language'; value: string }
+  | { key: 'codec'; value: string }
+  | { key: 'state'; value: string }
+  | { key: 'bitrateMin'; value: number }
+  | { key: 'bitrateMax'; value: number }
+  | { key: 'https'; value: boolean }
+  | { key: 'hls'; value: boolean };
+
+interface Token {
+  raw: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchToken extends Token {
+  filter: SearchFilter;
+}
+
+export interface SearchParseError extends Token {
+  message: string;
+}
+
+export interface ParsedSearch {
+  name: string;
+  filters: SearchToken[];
+  errors: SearchParseError[];
+}
+
+const KEY_ALIASES: Record<string, 'language' | 'codec' | 'state' | 'tag' | 'country' | 'bitrate' | 'https' | 'hls'> = {
+  lang: 'language', language: 'language',
+  codec: 'codec', format: 'codec',
+  state: 'state', region: 'state',
+  tag: 'tag', genre: 'tag',
+  country: 'country',
+  bitrate: 'bitrate', kbps: 'bitrate',
+  https: 'https', secure: 'https',
+  hls: 'hls',
+};
+
+const TRUE_VALUES = new Set(['yes', 'true', 'on', '1', 'y']);
+const FALSE_VALUES = new Set(['no', 'false', 'off', '0', 'n']);
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1').trim();
+
+const quoteIfNeeded = (value: string) => /\s/.test(value) ? `"${value}"` : value;
+
+/** Splits on whitespace outside double quotes, keeping source offsets for chip removal. */
+const tokenize = (input: string): { tokens: Token[]; unterminated: Token | null } => {
+  const tokens: Token[] = [];
+  let start = -1;
+  let inQuotes = false;
+  for (let i = 0; i <= input.length; i++) {
+    const char = input[i];
+    const atBoundary = i === input.length || (!inQuotes && /\s/.test(char));
+    if (atBoundary) {
+      if (start !== -1) tokens.push({ raw: input.slice(start, i), start, end: i });
+      start = -1;
+      continue;
+    }
+    if (start === -1) start = i;
+    if (char === '"') inQuotes = !inQuotes;
+  }
+  const last = tokens[tokens.length - 1];
+  return { tokens, unterminated: inQuotes && last ? last : null };
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const lower = value.toLowerCase();
+  if (TRUE_VALUES.has(lower)) return true;
+  if (FALSE_VALUES.has(lower)) return false;
+  return null;
+};
+
+const parseBitrate = (operator: string, value: string): SearchFilter[] | string => {
+  const kbps = Number(value.replace(/k(bps)?$/i, ''));
+  if (!Number.isInteger(kbps) || kbps < 0) return `"${value}" is not a valid bitrate`;
+  switch (operator) {
+    case '>=': case ':': return [{ key: 'bitrateMin', value: kbps }];
+    case '>': return [{ key: 'bitrateMin', value: kbps + 1 }];
+    case '<=': return [{ key: 'bitrateMax', value: kbps }];
+    case '<': return [{ key: 'bitrateMax', value: Math.max(0, kbps - 1) }];
+    case '=': return [{ key: 'bitrateMin', value: kbps }, { key: 'bitrateMax', value: kbps }];
+    default: return `Unsupported comparison "${operator}"`;
+  }
+};
+
+const countryFilter = (value: string): SearchFilter =>
+  /^[a-z]{2}$/i.test(value) ? { key: 'countrycode', value: value.toUpperCase() } : { key: 'country', value };
+
+/** Returns the filters for one token, an error message, or null when the token is free text. */
+const parseToken = (raw: string): SearchFilter[] | string | null => {
+  if (raw.startsWith('#') || raw.startsWith('@')) {
+    const value = unquote(raw.slice(1));
+    if (!value) return `"${raw}" needs a value`;
+    return raw.startsWith('#') ? [{ key: 'tag', value: value.toLowerCase() }] : [countryFilter(value)];
+  }
+
+  const match = raw.match(/^([a-z]+)\s*(>=|<=|:|=|>|<)(.*)$/i);
+  if (!match) return null;
+  const [, rawKey, operator, rawValue] = match;
+  const key = KEY_ALIASES[rawKey.toLowerCase()];
+  // "word:value" with an unknown key is most likely a typo; URLs stay free text
+  if (!key) return operator === ':' && !rawValue.startsWith('//') ? `Unknown filter "${rawKey}"` : null;
+  const value = unquote(rawValue);
+  if (!value) return `"${rawKey}" needs a value`;
+  if (key !== 'bitrate' && operator !== ':' && operator !== '=') return `"${rawKey}" only supports ":"`;
+
+  switch (key) {
+    case 'bitrate':
+      return parseBitrate(operator, value);
+    case 'https':
+    case 'hls': {
+      const flag = parseBoolean(value);
+      return flag === null ? `"${value}" is not yes/no` : [{ key, value: flag }];
+    }
+    case 'country':
+      return [countryFilter(value)];
+    case 'tag':
+      return [{ key: 'tag', value: value.toLowerCase() }];
+    case 'codec':
+      return [{ key: 'codec', value: value.toUpperCase() }];
+    default:
+      return [{ key, value: value.toLowerCase() }];
+  }
+};
+
+export const parseSearchQuery = (input: string): ParsedSearch => {
+  const { tokens, unterminated } = tokenize(input);
+  const words: string[] = [];
+  const filters: SearchToken[] = [];
+  const errors: SearchParseError[] = [];
+
+  for (const token of tokens) {
+    if (token === unterminated) {
+      errors.push({ ...token, message: 'Missing closing quote' });
+      continue;
+    }
+    const result = parseToken(token.raw);
+    if (result === null) words.push(unquote(token.raw));
+    else if (typeof result === 'string') errors.push({ ...token, message: result });
+    else result.forEach(filter => filters.push({ ...token, filter }));
+  }
+
+  return { name: words.join(' ').trim(), filters, errors };
+};
+
+/** Removes one token (chip or error) from the raw query, tidying the whitespace around it. */
+export const removeSearchToken = (input: string, token: Token): string =>
+  `${input.slice(0, token.start)} ${input.slice(token.end)}`.replace(/\s+/g, ' ').trim();
+
+/** Replaces the token under construction at the end of the query, e.g. after picking an autocomplete entry. */
+export const replaceLastToken = (input: string, replacement: string): string => {
+  const { tokens } = tokenize(input);
+  const last = /\s$/.test(input) ? undefined : tokens[tokens.length - 1];
+  const head = last ? input.slice(0, last.start) : input;
+  return `${head}${replacement} `.trimStart();
+};
+
+export const getLastToken = (input: string): string => {
+  if (/\s$/.test(input)) return '';
+  const { tokens } = tokenize(input);
+  return tokens[tokens.length - 1]?.raw ?? '';
+};
+
+export const formatTagToken = (tag: string) => `#${quoteIfNeeded(tag)}`;
+export const formatCountryToken = (country: string) => `@${quoteIfNeeded(country)}`;
+
+export const describeFilter = (filter: SearchFilter): string => {
+  switch (filter.key) {
+    case 'tag': return `#${filter.value}`;
+    case 'country':
+    case 'countrycode': return `@${filter.value}`;
+    case 'language': return `Language: ${filter.value}`;
+    case 'codec': return `Codec: ${filter.value}`;
+    case 'state': return `Region: ${filter.value}`;
+    case 'bitrateMin': return `≥ ${filter.value} kbps`;
+    case 'bitrateMax': return `≤ ${filter.value} kbps`;
+    case 'https': return filter.value ? 'HTTPS only' : 'No HTTPS';
+    case 'hls': return filter.value ? 'HLS only' : 'No HLS';
+  }
+};
+
+/**
+ * Maps a parsed query onto radio-browser's advanced search. radio-browser has
+ * no HLS parameter, so that filter comes back as a client-side predicate.
+ */
+export const toStationSearch = (parsed: ParsedSearch): { params: StationSearchParams; matches: (station: Station) => boolean } => {
+  const params: StationSearchParams = {};
+  const tags: string[] = [];
+  let hls: boolean | undefined;
+
+  if (parsed.name) params.name = parsed.name;
+  for (const { filter } of parsed.filters) {
+    switch (filter.key) {
+      case 'tag': if (!tags.includes(filter.value)) tags.push(filter.value); break;
+      case 'country': params.country = filter.value; break;
+      case 'countrycode': params.countrycode = filter.value; break;
+      case 'language': params.language = filter.value; break;
+      case 'codec': params.codec = filter.value; break;
+      case 'state': params.state = filter.value; break;
+      case 'bitrateMin': params.bitrateMin = filter.value; break;
+      case 'bitrateMax': params.bitrateMax = filter.value; break;
+      case 'https': params.isHttps = filter.value; break;
+      case 'hls': hls = filter.value; break;
+    }
+  }
+
+  // A single tag keeps the forgiving partial match; several must all be present
+  if (tags.length === 1) params.tag = tags[0];
+  else if (tags.length > 1) params.tagList = tags;
+
+  const matches = (station: Station) => hls === undefined || Boolean(station.hls) === hls;
+  return { params, matches };
+};
+
+export const isEmptySearch = (parsed: ParsedSearch) => !parsed.name && parsed.filters.length === 0;
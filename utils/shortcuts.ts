@@ -0,0 +1,53 @@
+export type ShortcutId = 'togglePlay' | 'volumeUp' | 'volumeDown' | 'next' | 'previous' | 'favorite' | 'search' | 'palette' | 'help';
+
+export interface Shortcut {
+  id: ShortcutId;
+  /** How the keys are shown in the help overlay. */
+  keys: string[];
+  label: string;
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { id: 'togglePlay', keys: ['Space'], label: 'Play / pause' },
+  { id: 'volumeUp', keys: ['↑'], label: 'Volume up' },
+  { id: 'volumeDown', keys: ['↓'], label: 'Volume down' },
+  { id: 'next', keys: ['N'], label: 'Next station' },
+  { id: 'previous', keys: ['P'], label: 'Previous station' },
+  { id: 'favorite', keys: ['F'], label: 'Add or remove the current station from favorites' },
+  { id: 'search', keys: ['/'], label: 'Search' },
+  { id: 'palette', keys: ['Ctrl', 'K'], label: 'Command palette' },
+  { id: 'help', keys: ['?'], label: 'Show these shortcuts' },
+];
+
+const KEY_BINDINGS: Record<string, ShortcutId> = {
+  ' ': 'togglePlay',
+  ArrowUp: 'volumeUp',
+  ArrowDown: 'volumeDown',
+  n: 'next',
+  N: 'next',
+  p: 'previous',
+  P: 'previous',
+  f: 'favorite',
+  F: 'favorite',
+  '/': 'search',
+  '?': 'help',
+};
+
+// Keys typed into fields, or pressed on controls that use them themselves, are left alone.
+// Arrows only mean volume while nothing is focused: any focused element, or the panel
+// around it, may scroll or move through options with them.
+const isOwnedByTarget = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  if (key === 'ArrowUp' || key === 'ArrowDown') return target !== document.body && target !== document.documentElement;
+  return key === ' ' && (target.tagName === 'BUTTON' || target.tagName === 'A');
+};
+
+/** The shortcut a key press stands for, or null when it isn't one (or belongs to the focused element). */
+export const matchShortcut = (event: KeyboardEvent): ShortcutId | null => {
+  // The palette opens from anywhere, text fields included
+  if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') return 'palette';
+  if (event.ctrlKey || event.metaKey || event.altKey || event.defaultPrevented) return null;
+  if (isOwnedByTarget(event.target, event.key)) return null;
+  return KEY_BINDINGS[event.key] ?? null;
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Station } from '../types';
+import { compareStations, describeMatch, findSimilarStations, splitList, tagSimilarity } from './stationSimilarity';
+
+const station = (id: string, fields: Partial<Station> = {}): Station => ({
+  changeuuid: '',
+  stationuuid: id,
+  name: id,
+  url: `https://streams.example.com/${id}`,
+  url_resolved: `https://streams.example.com/${id}`,
+  homepage: '',
+  favicon: '',
+  tags: '',
+  country: '',
+  countrycode: '',
+  state: '',
+  language: '',
+  votes: 0,
+  codec: 'MP3',
+  bitrate: 128,
+  hls: 0,
+  lastcheckok: 1,
+  clickcount: 0,
+  clicktrend: 0,
+  ...fields,
+});
+
+const reference = station('ref', { tags: 'jazz,swing,bebop', language: 'english', countrycode: 'US', country: 'United States' });
+
+describe('splitList', () => {
+  it('lowercases, trims and de-duplicates', () => {
+    expect(splitList(' Jazz, swing ,JAZZ,, ')).toEqual(['jazz', 'swing']);
+    expect(splitList(undefined)).toEqual([]);
+  });
+});
+
+describe('tagSimilarity', () => {
+  it('is the share of tags the two lists have in common', () => {
+    expect(tagSimilarity(['jazz', 'swing'], ['jazz', 'swing'])).toBe(1);
+    expect(tagSimilarity(['jazz', 'swing'], ['jazz', 'blues'])).toBeCloseTo(1 / 3);
+    expect(tagSimilarity(['jazz'], ['rock'])).toBe(0);
+    expect(tagSimilarity([], ['rock'])).toBe(0);
+  });
+});
+
+describe('compareStations', () => {
+  it('reports what the stations share', () => {
+    const match = compareStations(reference, station('c', { tags: 'Swing,jazz,lounge', language: 'English', countrycode: 'us', country: 'United States' }));
+    expect(match.sharedTags).toEqual(['jazz', 'swing']);
+    expect(match.sameLanguage).toBe(true);
+    expect(match.sameCountry).toBe(true);
+    expect(describeMatch(match)).toBe('jazz, swing · same language · United States');
+  });
+
+  it('has no relevance when nothing is shared, however good the stream', () => {
+    const match = compareStations(reference, station('c', { tags: 'metal', language: 'german', countrycode: 'DE', bitrate: 320, votes: 50_000 }));
+    expect(match.relevance).toBe(0);
+  });
+
+  it('does not count a missing country code as the same country', () => {
+    expect(compareStations(station('a'), station('b')).sameCountry).toBe(false);
+  });
+});
+
+describe('findSimilarStations', () => {
+  it('ranks shared tags above language, and language above country', () => {
+    const tags = station('tags', { tags: 'jazz,swing,bebop' });
+    const language = station('language', { language: 'english' });
+    const country = station('country', { countrycode: 'US' });
+    const ranked = findSimilarStations(reference, [country, language, tags]).map(match => match.station.stationuuid);
+    expect(ranked).toEqual(['tags', 'language', 'country']);
+  });
+
+  it('puts closer matches first and orders equal ones by quality and popularity', () => {
+    const plain = station('plain', { tags: 'jazz' });
+    const better = station('better', { tags: 'jazz', bitrate: 320, votes: 5_000 });
+    const closer = station('closer', { tags: 'jazz,swing', bitrate: 64 });
+    const ranked = findSimilarStations(reference, [plain, better, closer]).map(match => match.station.stationuuid);
+    expect(ranked).toEqual(['closer', 'better', 'plain']);
+  });
+
+  it('leaves out unrelated stations, the reference and the excluded', () => {
+    const candidates = [
+      station('ref', { tags: 'jazz' }),
+      station('unrelated', { tags: 'metal' }),
+      station('excluded', { tags: 'jazz' }),
+      station('kept', { tags: 'jazz' }),
+    ];
+    const ranked = findSimilarStations(reference, candidates, new Set(['excluded'])).map(match => match.station.stationuuid);
+    expect(ranked).toEqual(['kept']);
+  });
+
+  it('keeps the better-scored listing of a duplicated stream', () => {
+    const url = 'https://streams.example.com/shared';
+    const weaker = station('weaker', { tags: 'jazz', url, url_resolved: url });
+    const stronger = station('stronger', { tags: 'jazz', url: `${url}/`, url_resolved: `${url}/`, votes: 1_000 });
+    const copyOfReference = station('copy', { tags: 'jazz', url: reference.url, url_resolved: reference.url_resolved });
+    const ranked = findSimilarStations(reference, [weaker, stronger, copyOfReference]).map(match => match.station.stationuuid);
+    expect(ranked).toEqual(['stronger']);
+  });
+
+  it('stops at the limit', () => {
+    const candidates = ['a', 'b', 'c'].map(id => station(id, { tags: 'jazz' }));
+    expect(findSimilarStations(reference, candidates, undefined, 2)).toHaveLength(2);
+  });
+});
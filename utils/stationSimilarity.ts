@@ -0,0 +1,111 @@
+import { Station } from '../types';
+
+// How alike two stations are, from what Radio Browser tells us about them.
+// Relevance (shared tags, then language, then country) decides whether a
+// candidate is similar at all; stream quality and popularity only order the
+// relevant ones.
+
+const TAG_WEIGHT = 6;
+const LANGUAGE_WEIGHT = 2;
+const COUNTRY_WEIGHT = 1.5;
+const QUALITY_WEIGHT = 1;
+const VOTES_WEIGHT = 1;
+const TREND_WEIGHT = 0.5;
+// Votes count logarithmically and stop mattering past ~10k
+const VOTES_SCALE = 4;
+// A daily click trend of this size, either way, gets the full trend bonus or penalty
+const TREND_SCALE = 20;
+
+// Codecs that sound better than MP3 at the same bitrate
+const EFFICIENT_CODECS = new Set(['aac', 'aac+', 'he-aac', 'opus', 'ogg', 'vorbis', 'flac']);
+
+/** Lowercased, de-duplicated entries of a comma-separated field such as `tags` or `language`. */
+export const splitList = (value: string | undefined): string[] =>
+  Array.from(new Set((value ?? '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean)));
+
+/** Overlap of two tag lists, from 0 (nothing shared) to 1 (the same tags). */
+export const tagSimilarity = (a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const set = new Set(b);
+  const shared = a.filter(tag => set.has(tag)).length;
+  return shared / (a.length + b.length - shared);
+};
+
+/** Rough stream quality from 0 to 1; unknown bitrates count as middling. */
+export const streamQuality = (station: Station) => {
+  if (!station.bitrate) return 0.5;
+  const effectiveKbps = station.bitrate * (EFFICIENT_CODECS.has((station.codec || '').toLowerCase()) ? 1.5 : 1);
+  return Math.min(1, effectiveKbps / 192);
+};
+
+const popularity = (station: Station) =>
+  VOTES_WEIGHT * Math.min(1, Math.log10((station.votes || 0) + 1) / VOTES_SCALE)
+  + TREND_WEIGHT * Math.max(-1, Math.min(1, (station.clicktrend || 0) / TREND_SCALE));
+
+// Radio Browser often lists one stream several times, under other uuids
+const normalizeUrl = (url: string) => url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+const duplicateKeys = (station: Station) => {
+  const url = normalizeUrl(station.url_resolved || station.url || '');
+  return [
+    `uuid:${station.stationuuid}`,
+    `name:${station.name.trim().toLowerCase()}|${(station.countrycode || '').toUpperCase()}`,
+    ...(url ? [`url:${url}`] : []),
+  ];
+};
+
+export interface SimilarityMatch {
+  station: Station;
+  /** Shared tags, language and country only. */
+  relevance: number;
+  /** Relevance plus quality and popularity; what the results are ordered by. */
+  score: number;
+  sharedTags: string[];
+  sameLanguage: boolean;
+  sameCountry: boolean;
+}
+
+export const compareStations = (reference: Station, candidate: Station): SimilarityMatch => {
+  const referenceTags = splitList(reference.tags);
+  const candidateTags = splitList(candidate.tags);
+  const candidateTagSet = new Set(candidateTags);
+  const sharedTags = referenceTags.filter(tag => candidateTagSet.has(tag));
+  const candidateLanguages = new Set(splitList(candidate.language));
+  const sameLanguage = splitList(reference.language).some(language => candidateLanguages.has(language));
+  const sameCountry = Boolean(reference.countrycode) && reference.countrycode.toUpperCase() === candidate.countrycode?.toUpperCase();
+  const relevance = tagSimilarity(referenceTags, candidateTags) * TAG_WEIGHT
+    + (sameLanguage ? LANGUAGE_WEIGHT : 0)
+    + (sameCountry ? COUNTRY_WEIGHT : 0);
+  const score = relevance + QUALITY_WEIGHT * streamQuality(candidate) + popularity(candidate);
+  return { station: candidate, relevance, score, sharedTags, sameLanguage, sameCountry };
+};
+
+/**
+ * Candidates that have something in common with `reference`, best first.
+ * The reference, its duplicates, anything in `exclude` and repeated listings
+ * of the same stream are left out; of duplicates the better-scored one stays.
+ */
+export const findSimilarStations = (reference: Station, candidates: Station[], exclude: Set<string> = new Set(), limit = Infinity): SimilarityMatch[] => {
+  const matches = candidates
+    .filter(candidate => !exclude.has(candidate.stationuuid))
+    .map(candidate => compareStations(reference, candidate))
+    .filter(match => match.relevance > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const seen = new Set(duplicateKeys(reference));
+  const results: SimilarityMatch[] = [];
+  for (const match of matches) {
+    if (results.length >= limit) break;
+    const keys = duplicateKeys(match.station);
+    if (keys.some(key => seen.has(key))) continue;
+    keys.forEach(key => seen.add(key));
+    results.push(match);
+  }
+  return results;
+};
+
+/** Short reason for a match, e.g. "jazz, swing · same language". */
+export const describeMatch = (match: SimilarityMatch): string => [
+  match.sharedTags.slice(0, 2).join(', '),
+  match.sameLanguage ? 'same language' : '',
+  match.sameCountry ? match.station.country || match.station.countrycode : '',
+].filter(Boolean).join(' · ');
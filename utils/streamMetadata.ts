@@ -0,0 +1,62 @@
+import { TrackPlay } from '../types';
+
+// Stations fill StreamTitle with all sorts of things; these mean "nothing playing"
+const PLACEHOLDER_TITLES = /^(-|unknown|untitled|n\/a|null|undefined|advert(isement)?|commercial)?$/i;
+
+/** Turns a raw stream title into a track, splitting "Artist - Title" when it has that shape. */
+export const parseTrackTitle = (raw: string, at = Date.now()): TrackPlay | null => {
+  const text = raw.replace(/\s+/g, ' ').trim();
+  if (PLACEHOLDER_TITLES.test(text)) return null;
+  const separator = text.indexOf(' - ');
+  if (separator > 0 && separator < text.length - 3) {
+    return { raw: text, artist: text.slice(0, separator).trim(), title: text.slice(separator + 3).trim(), at };
+  }
+  return { raw: text, artist: null, title: text, at };
+};
+
+const syncsafe = (data: Uint8Array, offset: number) =>
+  ((data[offset] & 0x7f) << 21) | ((data[offset + 1] & 0x7f) << 14) | ((data[offset + 2] & 0x7f) << 7) | (data[offset + 3] & 0x7f);
+
+const uint32 = (data: Uint8Array, offset: number) =>
+  ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+
+const TEXT_ENCODINGS = ['iso-8859-1', 'utf-16', 'utf-16be', 'utf-8'];
+
+const decodeText = (body: Uint8Array) => {
+  const encoding = TEXT_ENCODINGS[body[0]] ?? 'utf-8';
+  return new TextDecoder(encoding).decode(body.subarray(1));
+};
+
+/** Text frames of an ID3v2.3/2.4 tag; TXXX frames are keyed by their description. */
+export const readId3TextFrames = (data: Uint8Array): Record<string, string> => {
+  const frames: Record<string, string> = {};
+  if (data.length < 10 || data[0] !== 0x49 || data[1] !== 0x44 || data[2] !== 0x33) return frames;
+  const version = data[3];
+  if (version < 3) return frames;
+  const end = Math.min(data.length, 10 + syncsafe(data, 6));
+  let offset = 10;
+  if (data[5] & 0x40) offset += version === 4 ? syncsafe(data, offset) : uint32(data, offset) + 4;
+
+  while (offset + 10 <= end) {
+    const id = String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+    if (!/^[A-Z0-9]{4}$/.test(id)) break;
+    const size = version === 4 ? syncsafe(data, offset + 4) : uint32(data, offset + 4);
+    const body = data.subarray(offset + 10, Math.min(end, offset + 10 + size));
+    offset += 10 + size;
+    if (id[0] !== 'T' || body.length < 2) continue;
+    const parts = decodeText(body).split('\0').map(part => part.trim()).filter(Boolean);
+    if (id === 'TXXX') {
+      if (parts.length >= 2) frames[parts[0]] = parts[1];
+    } else if (parts.length) {
+      frames[id] = parts.join(' / ');
+    }
+  }
+  return frames;
+};
+
+/** The "Artist - Title" announced by an HLS timed-metadata tag, if any. */
+export const readId3StreamTitle = (data: Uint8Array): string | null => {
+  const frames = readId3TextFrames(data);
+  if (frames.TIT2) return frames.TPE1 ? `${frames.TPE1} - ${frames.TIT2}` : frames.TIT2;
+  return frames.StreamTitle ?? frames.title ?? null;
+};